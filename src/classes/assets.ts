@@ -1,3 +1,4 @@
+import { RequestOptions } from '../types/request_options.js';
 import { GetUserAssetsResult } from '../types/sdk_results.js';
 import { validateWalletAddress } from '../utils/validation.js';
 import { HttpClient } from './http_client.js';
@@ -17,6 +18,7 @@ export class Assets {
    * @param ownerAddress - The wallet address to get assets for.
    * @param page - Page number for pagination (default: 1).
    * @param limit - Maximum number of assets to return per page (default: 10).
+   * @param options - Request options, such as an `AbortSignal` to cancel the request.
    * @returns User assets including token information and balances.
    * @example
    * ```typescript
@@ -31,6 +33,7 @@ export class Assets {
     ownerAddress: string,
     page: number = 1,
     limit: number = 10,
+    options?: RequestOptions,
   ): Promise<GetUserAssetsResult> {
     validateWalletAddress(ownerAddress);
 
@@ -57,11 +60,17 @@ export class Assets {
         }>;
         count: number;
       };
-    } = await this.httpClient.sendGetRequest(this.dexBackendBaseUrl, '/user/assets', '', {
-      address: ownerAddress,
-      page: page.toString(),
-      limit: limit.toString(),
-    });
+    } = await this.httpClient.sendGetRequest(
+      this.dexBackendBaseUrl,
+      '/user/assets',
+      '',
+      {
+        address: ownerAddress,
+        page: page.toString(),
+        limit: limit.toString(),
+      },
+      options,
+    );
 
     return {
       tokens:
@@ -1,10 +1,17 @@
 import crypto from 'crypto';
-import { TransactionPendingResponse } from '../types/api_responses.js';
+import {
+  TransactionPendingResponse,
+  TransactionStatusRawResponse,
+} from '../types/api_responses.js';
+import { RequestOptions } from '../types/request_options.js';
+import { systemTimers, Timers } from '../types/timers.js';
+import { throwIfAborted } from '../utils/abort.js';
 import { debugLog } from '../utils/debug.js';
+import type { BundlerResponse } from './event_socket_client.js';
 import { Events } from './events.js';
 import { GSwapSDKError } from './gswap_sdk_error.js';
 import { HttpClient } from './http_client.js';
-import { PendingTransaction } from './pending_transaction.js';
+import { PendingTransaction, TransactionWaitResult } from './pending_transaction.js';
 import { GalaChainSigner } from './signers.js';
 
 function randomUUID() {
@@ -15,14 +22,120 @@ function randomUUID() {
   return crypto.randomUUID();
 }
 
+function addUniqueKey<TInputType extends Record<string, unknown>>(dto: TInputType) {
+  return {
+    ...dto,
+    uniqueKey:
+      typeof dto.uniqueKey === 'string' ? dto.uniqueKey : `galaswap - operation - ${randomUUID()}`,
+  };
+}
+
+// Whether a failed request may succeed if sent again later
+function isTransientError(error: unknown): boolean {
+  if (error instanceof GSwapSDKError) {
+    const status = error.details?.status;
+    return typeof status === 'number' && (status >= 500 || status === 408 || status === 429);
+  }
+
+  // fetch rejects with a TypeError when the request fails at the network level
+  return error instanceof TypeError;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * A request to the bundler that has been built but not signed, so that it can be signed elsewhere
+ * (for example on an offline machine) with {@link Bundler.signRequest}.
+ */
+export interface UnsignedBundlerRequest {
+  method: string;
+  /** The DTO to sign. It already contains its unique key, so signing it again produces an equivalent transaction. */
+  dto: Record<string, unknown> & { uniqueKey: string };
+  stringsInstructions: string[];
+}
+
+/**
+ * A signed request to the bundler, exactly as it is sent over the network.
+ */
+export interface SignedBundlerRequest {
+  method: string;
+  signedDto: Record<string, unknown> & { signature: string };
+  stringsInstructions: string[];
+}
+
+/**
+ * The request a mutating method would have sent, returned instead of submitting it in dry-run mode.
+ */
+export interface DryRunResult extends SignedBundlerRequest {
+  /** The DTO before it was signed. Only included when `includeUnsignedDto` is set. */
+  unsignedDto?: Record<string, unknown> | undefined;
+}
+
+/**
+ * Options accepted by every method that submits a transaction.
+ */
+export interface BundlerRequestOptions extends RequestOptions {
+  /** Build and sign the request, then return it (as a {@link DryRunResult}) instead of submitting it */
+  dryRun?: boolean | undefined;
+  /** In dry-run mode, also return the DTO before it was signed */
+  includeUnsignedDto?: boolean | undefined;
+  /**
+   * Build the request and return it (as an {@link UnsignedBundlerRequest}) without signing or submitting it.
+   * No signer is needed, but the wallet address must be specified.
+   */
+  unsigned?: boolean | undefined;
+}
+
+/**
+ * What a method that submits a transaction returns for the given options:
+ * an {@link UnsignedBundlerRequest} with `unsigned`, a {@link DryRunResult} in dry-run mode,
+ * and a {@link PendingTransaction} otherwise, whose `wait()` also resolves with `TResult`.
+ */
+export type BundlerRequestResult<
+  TOptions extends BundlerRequestOptions | undefined,
+  TResult extends object = Record<never, never>,
+> = TOptions extends { unsigned: true }
+  ? UnsignedBundlerRequest
+  : TOptions extends { dryRun: true }
+    ? DryRunResult
+    : TOptions extends
+          | (RequestOptions & { dryRun?: false | undefined; unsigned?: false | undefined })
+          | undefined
+      ? PendingTransaction<TResult>
+      : UnsignedBundlerRequest | DryRunResult | PendingTransaction<TResult>;
+
 export class Bundler {
+  private readonly transactionStatusPath: string;
+  private readonly transactionStatusPollIntervalMs: number;
+  private readonly timers: Timers;
+  private readonly events: Events;
+
+  /**
+   * @param options.transactionStatusPath - Path of the bundler's transaction status endpoint. Defaults to `/transaction-status`.
+   * @param options.transactionStatusPollIntervalMs - How often to poll the status of a transaction that is waited on without a socket connection. Defaults to 2,000 milliseconds.
+   * @param options.timers - Timers used for polling. Defaults to the system timers.
+   * @param options.events - The event hub that transactions are waited on through. Defaults to {@link Events.instance}.
+   */
   constructor(
     private readonly bundlerBaseUrl: string,
     private readonly bundlingAPIBasePath: string,
     private readonly transactionWaitTimeoutMs: number,
     private readonly signer: GalaChainSigner | undefined,
     private readonly httpClient: HttpClient,
-  ) {}
+    options?: {
+      transactionStatusPath?: string | undefined;
+      transactionStatusPollIntervalMs?: number | undefined;
+      timers?: Timers | undefined;
+      events?: Events | undefined;
+    },
+  ) {
+    this.transactionStatusPath = options?.transactionStatusPath ?? '/transaction-status';
+    this.transactionStatusPollIntervalMs = options?.transactionStatusPollIntervalMs ?? 2000;
+    this.timers = options?.timers ?? systemTimers;
+    this.events = options?.events ?? Events.instance;
+  }
 
   async signObject<TInputType extends Record<string, unknown>>(
     methodName: string,
@@ -32,57 +145,395 @@ export class Bundler {
       throw GSwapSDKError.noSignerError();
     }
 
-    const withUniqueKey = {
-      ...toSign,
-      uniqueKey: toSign.uniqueKey ?? `galaswap - operation - ${randomUUID()}`,
-    };
+    const withUniqueKey = addUniqueKey(toSign);
 
     debugLog('Signing object for method', methodName, withUniqueKey);
 
     return this.signer.signObject(methodName, withUniqueKey);
   }
 
-  async sendBundlerRequest(
+  async sendBundlerRequest<
+    TOptions extends BundlerRequestOptions | undefined = undefined,
+    TResult extends object = Record<never, never>,
+  >(
     method: string,
     body: Record<string, unknown>,
     stringsInstructions: string[],
-  ): Promise<PendingTransaction> {
+    options?: TOptions,
+    decodeResult?: (data: unknown) => TResult,
+  ): Promise<BundlerRequestResult<TOptions, TResult>> {
+    if (options?.unsigned) {
+      const unsignedRequest: UnsignedBundlerRequest = {
+        method,
+        dto: addUniqueKey(body),
+        stringsInstructions,
+      };
+
+      debugLog('Returning unsigned bundler request', method, unsignedRequest);
+
+      return unsignedRequest as BundlerRequestResult<TOptions, TResult>;
+    }
+
     if (!this.hasSigner()) {
       throw GSwapSDKError.noSignerError();
     }
 
-    const requestBody = {
+    const requestBody: SignedBundlerRequest = {
       method,
       signedDto: await this.signObject(method, body),
       stringsInstructions,
     };
 
-    debugLog('Sending bundler request', method, requestBody);
+    if (options?.dryRun) {
+      debugLog('Returning dry run bundler request', method, requestBody);
+
+      const unsignedDto: Record<string, unknown> = { ...requestBody.signedDto };
+      delete unsignedDto.signature;
 
+      const dryRunResult: DryRunResult = options.includeUnsignedDto
+        ? { ...requestBody, unsignedDto }
+        : requestBody;
+
+      return dryRunResult as BundlerRequestResult<TOptions, TResult>;
+    }
+
+    return this.submitSigned(requestBody, decodeResult, options) as Promise<
+      BundlerRequestResult<TOptions, TResult>
+    >;
+  }
+
+  /**
+   * Submits a request that was signed separately, for example on an offline machine with {@link Bundler.signRequest}.
+   * No signer is needed.
+   * @param request - The signed request. Dry run results can also be submitted.
+   * @param decodeResult - Decodes the typed result that `wait()` resolves with, such as {@link decodeSwapResult}.
+   * @param options - Request options, such as an `AbortSignal` to cancel the submission. Once the bundler has
+   * received the request, aborting may not stop the transaction.
+   * @returns Pending transaction.
+   * @example
+   * ```typescript
+   * const signedRequest = Bundler.parseSignedRequest(signedJson);
+   * const pendingTx = await gSwap.bundler.submitSigned(signedRequest, decodeSwapResult);
+   * const { outTokenAmount } = await pendingTx.wait();
+   * ```
+   */
+  async submitSigned<TResult extends object = Record<never, never>>(
+    request: SignedBundlerRequest,
+    decodeResult?: (data: unknown) => TResult,
+    options?: RequestOptions,
+  ): Promise<PendingTransaction<TResult>> {
+    // Only send the fields the bundler expects, so that dry run results can be submitted as they are
+    const requestBody: SignedBundlerRequest = Bundler.parseSignedRequest(
+      Bundler.serializeRequest(request),
+    );
+
+    debugLog('Sending bundler request', request.method, requestBody);
+
+    const submittedAt = this.timers.now();
     const response = await this.httpClient.sendPostRequest<TransactionPendingResponse>(
       this.bundlerBaseUrl,
       this.bundlingAPIBasePath,
       '',
       requestBody,
+      options,
     );
 
-    debugLog('Received bundler response', method, response);
+    debugLog('Received bundler response', request.method, response);
 
-    Events.instance.registerTxId(response.data, this.transactionWaitTimeoutMs);
+    const events = this.getEventHub();
+    events.registerTxId(response.data, this.transactionWaitTimeoutMs, () =>
+      this.fetchTransactionStatus(response.data),
+    );
 
     const transaction = new PendingTransaction(
       response.data,
       response.message,
       response.error,
-      () => {
-        return Events.instance.wait(response.data);
+      (signal) => {
+        // Without a socket connection (or if the transaction was submitted before connecting), poll instead
+        if (events.getTransactionStatus(response.data)) {
+          return events.wait(response.data, { signal });
+        }
+
+        return this.pollTransactionStatus(response.data, signal);
+      },
+      decodeResult,
+      {
+        stages: [
+          {
+            stage: 'submitted',
+            txId: response.data,
+            timestamp: submittedAt,
+            details: { method: request.method },
+          },
+          {
+            stage: 'acknowledged',
+            txId: response.data,
+            timestamp: this.timers.now(),
+            details: { message: response.message },
+          },
+        ],
+        timers: this.timers,
       },
     );
 
     return transaction;
   }
 
+  /**
+   * Fetches the status of a submitted transaction from the bundler.
+   * @param txId - The transaction ID returned when the transaction was submitted.
+   * @param options - Request options, such as an `AbortSignal` to cancel the request.
+   * @returns The outcome of the transaction, in the same shape as socket events, or `undefined` if it hasn't been processed yet.
+   */
+  async fetchTransactionStatus(
+    txId: string,
+    options?: RequestOptions,
+  ): Promise<BundlerResponse | undefined> {
+    let response: TransactionStatusRawResponse;
+
+    try {
+      response = await this.httpClient.sendGetRequest<TransactionStatusRawResponse>(
+        this.bundlerBaseUrl,
+        this.transactionStatusPath,
+        '',
+        { id: txId },
+        options,
+      );
+    } catch (error) {
+      // The bundler may not know about a transaction it has only just accepted
+      if (error instanceof GSwapSDKError && error.details?.status === 404) {
+        return undefined;
+      }
+
+      throw error;
+    }
+
+    debugLog('Received transaction status', txId, response);
+
+    if ((response.status === 'PROCESSED' || response.status === 'FAILED') && response.data) {
+      return {
+        ...response,
+        transactionHash: response.transactionHash ?? response.data?.transactionId,
+      } as BundlerResponse;
+    }
+
+    return undefined;
+  }
+
+  // Apps that connect through the static GSwap.events still get their transactions from it
+  private getEventHub(): Events {
+    return this.events.connectionState === 'disconnected' &&
+      Events.instance.connectionState !== 'disconnected'
+      ? Events.instance
+      : this.events;
+  }
+
+  private async pollTransactionStatus(
+    txId: string,
+    signal?: AbortSignal,
+  ): Promise<TransactionWaitResult> {
+    const deadline = this.timers.now() + this.transactionWaitTimeoutMs;
+
+    for (;;) {
+      throwIfAborted(signal, { txId });
+      let response: BundlerResponse | undefined;
+
+      try {
+        response = await this.fetchTransactionStatus(txId, { signal });
+      } catch (error) {
+        // A status check that failed says nothing about the transaction, so keep polling until the timeout
+        if (signal?.aborted || !isTransientError(error)) {
+          throw error;
+        }
+
+        debugLog(`Failed to fetch the status of transaction ${txId}, polling again:`, error);
+      }
+
+      if (response?.status === 'PROCESSED') {
+        return {
+          txId,
+          transactionHash: response.data.transactionId,
+          Data: response.data.Data,
+        };
+      }
+
+      if (response?.status === 'FAILED') {
+        throw GSwapSDKError.transactionWaitFailedError(txId, response.data);
+      }
+
+      if (this.timers.now() + this.transactionStatusPollIntervalMs > deadline) {
+        throw GSwapSDKError.transactionWaitTimeoutError(txId);
+      }
+
+      await new Promise<void>((resolve) => {
+        const handleAbort = () => {
+          this.timers.clearTimeout(timer);
+          resolve();
+        };
+
+        const timer = this.timers.setTimeout(() => {
+          signal?.removeEventListener('abort', handleAbort);
+          resolve();
+        }, this.transactionStatusPollIntervalMs);
+
+        signal?.addEventListener('abort', handleAbort, { once: true });
+      });
+    }
+  }
+
+  /**
+   * Submits several operations as a single atomic `BatchSubmit` transaction.
+   * If any operation fails, none of the operations are applied.
+   * @param operations - The operations to submit, in the order they should be executed.
+   * @param stringsInstructions - The keys of every object read or written by any of the operations.
+   * @param options - Request options, such as dry-run mode.
+   * @param decodeResult - Decodes the typed result that `wait()` resolves with from the operations' responses.
+   */
+  async sendBatchBundlerRequest<
+    TOptions extends BundlerRequestOptions | undefined = undefined,
+    TResult extends object = Record<never, never>,
+  >(
+    operations: Array<{ method: string; dto: Record<string, unknown> }>,
+    stringsInstructions: string[],
+    options?: TOptions,
+    decodeResult?: (data: unknown) => TResult,
+  ): Promise<BundlerRequestResult<TOptions, TResult>> {
+    const uniqueKey = `galaswap - operation - ${randomUUID()}`;
+
+    return this.sendBundlerRequest<TOptions, TResult>(
+      'BatchSubmit',
+      {
+        operations: operations.map((operation, index) => ({
+          method: operation.method,
+          dto: {
+            ...operation.dto,
+            uniqueKey: `${uniqueKey} - ${index}`,
+          },
+        })),
+        noPartialSuccess: true,
+        uniqueKey,
+      },
+      stringsInstructions,
+      options,
+      decodeResult,
+    );
+  }
+
   hasSigner(): boolean {
     return this.signer !== undefined;
   }
+
+  /**
+   * Signs a request that was built with the `unsigned` option. This doesn't need a {@link Bundler} instance
+   * or network access, so it can run on an offline machine.
+   * @param request - The unsigned request.
+   * @param signer - The signer, such as a {@link PrivateKeySigner}.
+   * @returns The signed request, ready for {@link Bundler.submitSigned}.
+   * @example
+   * ```typescript
+   * const unsignedRequest = Bundler.parseUnsignedRequest(unsignedJson);
+   * const signedRequest = await Bundler.signRequest(unsignedRequest, new PrivateKeySigner(privateKey));
+   * const signedJson = Bundler.serializeRequest(signedRequest);
+   * ```
+   */
+  static async signRequest(
+    request: UnsignedBundlerRequest,
+    signer: GalaChainSigner,
+  ): Promise<SignedBundlerRequest> {
+    debugLog('Signing unsigned request for method', request.method, request.dto);
+
+    return {
+      method: request.method,
+      signedDto: await signer.signObject(request.method, request.dto),
+      stringsInstructions: request.stringsInstructions,
+    };
+  }
+
+  /**
+   * Serializes an unsigned or signed request to JSON, to move it between machines.
+   * @param request - The request.
+   * @returns The request as a JSON string.
+   */
+  static serializeRequest(request: UnsignedBundlerRequest | SignedBundlerRequest): string {
+    const { method, stringsInstructions } = request;
+
+    return 'signedDto' in request
+      ? JSON.stringify({ method, signedDto: request.signedDto, stringsInstructions })
+      : JSON.stringify({ method, dto: request.dto, stringsInstructions });
+  }
+
+  /**
+   * Parses an unsigned request serialized with {@link Bundler.serializeRequest}.
+   * @param json - The serialized request.
+   * @returns The unsigned request.
+   */
+  static parseUnsignedRequest(json: string): UnsignedBundlerRequest {
+    const parsed = Bundler.parseRequestFields(json);
+
+    if (!isPlainObject(parsed.dto) || typeof parsed.dto.uniqueKey !== 'string') {
+      throw Bundler.invalidRequestError('dto must be an object with a uniqueKey');
+    }
+
+    return {
+      method: parsed.method,
+      dto: parsed.dto as UnsignedBundlerRequest['dto'],
+      stringsInstructions: parsed.stringsInstructions,
+    };
+  }
+
+  /**
+   * Parses a signed request serialized with {@link Bundler.serializeRequest}.
+   * @param json - The serialized request.
+   * @returns The signed request.
+   */
+  static parseSignedRequest(json: string): SignedBundlerRequest {
+    const parsed = Bundler.parseRequestFields(json);
+
+    if (!isPlainObject(parsed.signedDto) || typeof parsed.signedDto.signature !== 'string') {
+      throw Bundler.invalidRequestError('signedDto must be an object with a signature');
+    }
+
+    return {
+      method: parsed.method,
+      signedDto: parsed.signedDto as SignedBundlerRequest['signedDto'],
+      stringsInstructions: parsed.stringsInstructions,
+    };
+  }
+
+  private static parseRequestFields(
+    json: string,
+  ): Record<string, unknown> & { method: string; stringsInstructions: string[] } {
+    let parsed: unknown;
+
+    try {
+      parsed = JSON.parse(json);
+    } catch {
+      throw Bundler.invalidRequestError('not valid JSON');
+    }
+
+    if (!isPlainObject(parsed) || typeof parsed.method !== 'string') {
+      throw Bundler.invalidRequestError('method must be a string');
+    }
+
+    if (
+      !Array.isArray(parsed.stringsInstructions) ||
+      !parsed.stringsInstructions.every((instruction) => typeof instruction === 'string')
+    ) {
+      throw Bundler.invalidRequestError('stringsInstructions must be an array of strings');
+    }
+
+    return {
+      ...parsed,
+      method: parsed.method,
+      stringsInstructions: parsed.stringsInstructions as string[],
+    };
+  }
+
+  private static invalidRequestError(reason: string) {
+    return new GSwapSDKError(`Invalid bundler request: ${reason}`, 'VALIDATION_ERROR', {
+      type: 'INVALID_BUNDLER_REQUEST',
+      reason,
+    });
+  }
 }
@@ -0,0 +1,542 @@
+import BigNumber from 'bignumber.js';
+import { EventEmitter } from 'events';
+import { NumericAmount } from '../types/amounts.js';
+import type { SwapTransactionResult } from '../types/sdk_results.js';
+import { systemTimers, TimerHandle, Timers } from '../types/timers.js';
+import { GalaChainTokenClassKey } from '../types/token.js';
+import { debugLog } from '../utils/debug.js';
+import { stringifyTokenClassKey } from '../utils/token.js';
+import {
+  validateNumericAmount,
+  validatePriceImpact,
+  validateSlippageBps,
+} from '../utils/validation.js';
+import { GSwapSDKError } from './gswap_sdk_error.js';
+import type { PendingTransaction } from './pending_transaction.js';
+import type { Swaps } from './swaps.js';
+
+/**
+ * A recurring exact input swap. Schedules only contain JSON-compatible values, so a
+ * {@link DcaScheduleStore} can persist them as they are.
+ */
+export interface DcaSchedule {
+  id: string;
+  /** The input token to sell */
+  tokenIn: string;
+  /** The output token to buy */
+  tokenOut: string;
+  /** The amount of input tokens to sell at each run */
+  amountIn: string;
+  /** Time between runs, in milliseconds */
+  intervalMs: number;
+  /** Time of the first run, in milliseconds since the epoch */
+  startAt: number;
+  /** If specified, no runs are scheduled after this time, in milliseconds since the epoch */
+  endAt?: number | undefined;
+  /** Slippage tolerance of each run, in basis points (e.g. 50 for 0.5%) */
+  slippageBps: number;
+  /** If specified, runs whose quoted price impact is larger than this (as a positive fraction) fail without trading */
+  maxPriceImpact?: string | undefined;
+  /** The wallet address executing the swaps */
+  walletAddress?: string | undefined;
+  /**
+   * What to do with runs that were missed while the scheduler was not running.
+   * `runAll` (the default) executes every missed run when the scheduler starts,
+   * and `skip` records them as missed. The latest due run is always executed.
+   */
+  missedRunPolicy?: DcaMissedRunPolicy | undefined;
+  status: 'active' | 'completed';
+  /** Time of the next run, in milliseconds since the epoch */
+  nextRunAt: number;
+  executions: DcaExecution[];
+}
+
+export type DcaMissedRunPolicy = 'runAll' | 'skip';
+
+/**
+ * The record of one run of a {@link DcaSchedule}.
+ */
+export interface DcaExecution {
+  /** The time the run was scheduled for, in milliseconds since the epoch */
+  scheduledAt: number;
+  /** The time the run was executed (or found to be missed), in milliseconds since the epoch */
+  executedAt: number;
+  /**
+   * `submitted` if the swap was submitted but its result is unknown (for example because the event socket is not connected),
+   * `succeeded` or `failed` once the result is known, and `missed` if the run was not executed.
+   */
+  status: 'submitted' | 'succeeded' | 'failed' | 'missed';
+  transactionId?: string | undefined;
+  /** The fee tier of the pool the swap was executed in */
+  feeTier?: number | undefined;
+  /** The amount of input tokens sold */
+  inTokenAmount?: string | undefined;
+  /** The amount of output tokens bought. Until the transaction result is known, this is the quoted amount. */
+  outTokenAmount?: string | undefined;
+  /** The minimum amount of output tokens the swap accepted */
+  amountOutMinimum?: string | undefined;
+  /** Why the run failed */
+  error?: string | undefined;
+}
+
+/**
+ * Persistence for DCA schedules. Implement this to store schedules in a database or file,
+ * or use {@link InMemoryDcaScheduleStore}.
+ */
+export interface DcaScheduleStore {
+  /** Returns all stored schedules */
+  list(): Promise<DcaSchedule[]>;
+  /** Returns a stored schedule, or undefined if there is no schedule with this ID */
+  get(id: string): Promise<DcaSchedule | undefined>;
+  /** Creates or replaces a schedule */
+  save(schedule: DcaSchedule): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+/**
+ * A {@link DcaScheduleStore} that keeps schedules in memory. Schedules are lost when the process exits.
+ */
+export class InMemoryDcaScheduleStore implements DcaScheduleStore {
+  private readonly schedules = new Map<string, string>();
+
+  async list(): Promise<DcaSchedule[]> {
+    return [...this.schedules.values()].map((schedule) => JSON.parse(schedule));
+  }
+
+  async get(id: string): Promise<DcaSchedule | undefined> {
+    const schedule = this.schedules.get(id);
+    return schedule === undefined ? undefined : JSON.parse(schedule);
+  }
+
+  async save(schedule: DcaSchedule): Promise<void> {
+    // Stored as JSON so that callers can't modify stored schedules, as with a real database
+    this.schedules.set(schedule.id, JSON.stringify(schedule));
+  }
+
+  async delete(id: string): Promise<void> {
+    this.schedules.delete(id);
+  }
+}
+
+/**
+ * Summary of the executions of a DCA schedule.
+ */
+export interface DcaSummary {
+  scheduleId: string;
+  /** The number of runs that were submitted (whether or not their result is known) */
+  executedRuns: number;
+  failedRuns: number;
+  missedRuns: number;
+  /** The amount of input tokens sold across all submitted runs */
+  totalInTokenAmount: BigNumber;
+  /** The amount of output tokens bought across all submitted runs */
+  totalOutTokenAmount: BigNumber;
+  /** Average fill price, in output tokens per input token. Undefined if nothing was bought. */
+  averagePrice: BigNumber | undefined;
+  /** Average cost, in input tokens per output token. Undefined if nothing was bought. */
+  averageCost: BigNumber | undefined;
+}
+
+/**
+ * Executes recurring swaps (dollar-cost averaging). Each run quotes across all fee tiers and
+ * swaps in the best pool with slippage protection, using {@link Swaps.swapWithSlippage}.
+ *
+ * Schedules and their executions are persisted through a {@link DcaScheduleStore}. When the scheduler is started,
+ * runs that were missed while it was not running are handled according to each schedule's `missedRunPolicy`.
+ * To record the results of runs, connect the event socket (see {@link Events.connectEventSocket}).
+ *
+ * Events:
+ * - `execution` (`schedule`, {@link DcaExecution}): after every run, including missed runs. For submitted runs, this is
+ *   once their result is known, which doesn't hold up the next run.
+ * - `error` (`error`, `scheduleId`): running a schedule or recording the result of a run failed, for example because the
+ *   store could not be read or written. A schedule that failed to run is not run again until the scheduler is restarted.
+ *   If there's no listener, the error is only logged.
+ *
+ * @example
+ * ```typescript
+ * const scheduler = new DcaScheduler(gSwap.swaps, new InMemoryDcaScheduleStore());
+ *
+ * await scheduler.addSchedule({
+ *   tokenIn: 'GUSDC|Unit|none|none',
+ *   tokenOut: 'GALA|Unit|none|none',
+ *   amountIn: '500',
+ *   intervalMs: 24 * 60 * 60 * 1000, // every day
+ *   slippageBps: 50,
+ * });
+ *
+ * await scheduler.start();
+ * ```
+ */
+export class DcaScheduler extends EventEmitter {
+  private readonly timers: Timers;
+  private readonly timerHandles = new Map<string, TimerHandle>();
+  private readonly runningSchedules = new Map<string, Promise<void>>();
+  private started = false;
+
+  constructor(
+    private readonly swapsService: Swaps,
+    private readonly store: DcaScheduleStore,
+    options?: {
+      timers?: Timers | undefined;
+    },
+  ) {
+    super();
+    this.timers = options?.timers ?? systemTimers;
+  }
+
+  /**
+   * Creates a schedule and saves it to the store. If the scheduler is started, the schedule is armed immediately.
+   * @param args - Schedule parameters.
+   * @param args.id - The schedule ID. A random ID is generated if not specified.
+   * @param args.tokenIn - The input token to sell.
+   * @param args.tokenOut - The output token to buy.
+   * @param args.amountIn - The amount of input tokens to sell at each run.
+   * @param args.intervalMs - Time between runs, in milliseconds.
+   * @param args.startAt - Time of the first run, in milliseconds since the epoch. Defaults to now.
+   * @param args.endAt - If specified, no runs are scheduled after this time.
+   * @param args.slippageBps - Slippage tolerance of each run, in basis points (e.g. 50 for 0.5%).
+   * @param args.maxPriceImpact - If specified, runs whose quoted price impact is larger than this fail without trading.
+   * @param args.walletAddress - The wallet address executing the swaps.
+   * @param args.missedRunPolicy - What to do with runs that were missed while the scheduler was not running.
+   * @returns The saved schedule.
+   */
+  async addSchedule(args: {
+    id?: string | undefined;
+    tokenIn: GalaChainTokenClassKey | string;
+    tokenOut: GalaChainTokenClassKey | string;
+    amountIn: NumericAmount;
+    intervalMs: number;
+    startAt?: number | undefined;
+    endAt?: number | undefined;
+    slippageBps: number;
+    maxPriceImpact?: NumericAmount | undefined;
+    walletAddress?: string | undefined;
+    missedRunPolicy?: DcaMissedRunPolicy | undefined;
+  }): Promise<DcaSchedule> {
+    validateNumericAmount(args.amountIn, 'amountIn');
+    validateSlippageBps(args.slippageBps);
+
+    if (!Number.isFinite(args.intervalMs) || args.intervalMs <= 0) {
+      throw new GSwapSDKError('Invalid intervalMs: must be a positive number', 'VALIDATION_ERROR', {
+        type: 'INVALID_INTERVAL',
+        value: args.intervalMs,
+      });
+    }
+
+    if (args.maxPriceImpact !== undefined) {
+      validatePriceImpact(args.maxPriceImpact, 'maxPriceImpact');
+    }
+
+    const startAt = args.startAt ?? this.timers.now();
+    const schedule: DcaSchedule = {
+      id: args.id ?? `${startAt.toString(36)}-${Math.random().toString(36).slice(2, 10)}`,
+      tokenIn: stringifyTokenClassKey(args.tokenIn),
+      tokenOut: stringifyTokenClassKey(args.tokenOut),
+      amountIn: BigNumber(args.amountIn).toFixed(),
+      intervalMs: args.intervalMs,
+      startAt,
+      endAt: args.endAt,
+      slippageBps: args.slippageBps,
+      maxPriceImpact:
+        args.maxPriceImpact !== undefined ? BigNumber(args.maxPriceImpact).toFixed() : undefined,
+      walletAddress: args.walletAddress,
+      missedRunPolicy: args.missedRunPolicy,
+      status: args.endAt !== undefined && startAt > args.endAt ? 'completed' : 'active',
+      nextRunAt: startAt,
+      executions: [],
+    };
+
+    await this.store.save(schedule);
+
+    if (this.started) {
+      this.arm(schedule);
+    }
+
+    return schedule;
+  }
+
+  /**
+   * Stops a schedule and deletes it from the store. Runs that were already submitted are not affected.
+   * @param id - The schedule ID.
+   */
+  async removeSchedule(id: string): Promise<void> {
+    // A run in progress re-arms its schedule when it finishes, and results recorded meanwhile queue up behind it
+    while (this.runningSchedules.has(id)) {
+      await this.runningSchedules.get(id);
+    }
+
+    this.disarm(id);
+    await this.store.delete(id);
+  }
+
+  /**
+   * Loads all schedules from the store and arms a timer for the next run of each schedule.
+   * Runs that were missed while the scheduler was not running are due right away, and each schedule
+   * handles them in the background, so one schedule catching up doesn't hold up the others.
+   */
+  async start(): Promise<void> {
+    if (this.started) {
+      return;
+    }
+
+    this.started = true;
+
+    const schedules = await this.store.list();
+    for (const schedule of schedules) {
+      this.arm(schedule);
+    }
+  }
+
+  /**
+   * Stops all timers. Runs that are in progress finish, and schedules remain in the store.
+   */
+  stop(): void {
+    this.started = false;
+
+    for (const id of [...this.timerHandles.keys()]) {
+      this.disarm(id);
+    }
+  }
+
+  /**
+   * Summarizes the executions of a schedule, including its average fill price.
+   * @param id - The schedule ID.
+   * @returns The summary.
+   */
+  async getSummary(id: string): Promise<DcaSummary> {
+    const schedule = await this.getSchedule(id);
+
+    const executed = schedule.executions.filter(
+      (execution) => execution.status === 'submitted' || execution.status === 'succeeded',
+    );
+    const totalInTokenAmount = executed.reduce(
+      (sum, execution) => sum.plus(execution.inTokenAmount ?? 0),
+      BigNumber(0),
+    );
+    const totalOutTokenAmount = executed.reduce(
+      (sum, execution) => sum.plus(execution.outTokenAmount ?? 0),
+      BigNumber(0),
+    );
+    const hasFills = totalInTokenAmount.isGreaterThan(0) && totalOutTokenAmount.isGreaterThan(0);
+
+    return {
+      scheduleId: schedule.id,
+      executedRuns: executed.length,
+      failedRuns: schedule.executions.filter((execution) => execution.status === 'failed').length,
+      missedRuns: schedule.executions.filter((execution) => execution.status === 'missed').length,
+      totalInTokenAmount,
+      totalOutTokenAmount,
+      averagePrice: hasFills ? totalOutTokenAmount.dividedBy(totalInTokenAmount) : undefined,
+      averageCost: hasFills ? totalInTokenAmount.dividedBy(totalOutTokenAmount) : undefined,
+    };
+  }
+
+  private async getSchedule(id: string): Promise<DcaSchedule> {
+    const schedule = await this.store.get(id);
+
+    if (!schedule) {
+      throw new GSwapSDKError('DCA schedule not found', 'OBJECT_NOT_FOUND', { id });
+    }
+
+    return schedule;
+  }
+
+  private arm(schedule: DcaSchedule): void {
+    this.disarm(schedule.id);
+
+    if (!this.started || schedule.status !== 'active') {
+      return;
+    }
+
+    const handle = this.timers.setTimeout(
+      () => {
+        this.timerHandles.delete(schedule.id);
+        void this.runSchedule(schedule.id);
+      },
+      Math.max(0, schedule.nextRunAt - this.timers.now()),
+    );
+
+    this.timerHandles.set(schedule.id, handle);
+  }
+
+  private disarm(id: string): void {
+    const handle = this.timerHandles.get(id);
+
+    if (handle !== undefined) {
+      this.timers.clearTimeout(handle);
+      this.timerHandles.delete(id);
+    }
+  }
+
+  private runSchedule(id: string): Promise<void> {
+    return this.enqueue(id, () => this.executeDueRuns(id));
+  }
+
+  // Work on the same schedule never overlaps, so that each update sees the schedule saved by the previous one
+  private enqueue(id: string, task: () => Promise<void>): Promise<void> {
+    const previous = this.runningSchedules.get(id) ?? Promise.resolve();
+    const run = previous
+      .then(task)
+      .catch((error: unknown) => this.handleRunError(id, error))
+      .finally(() => {
+        if (this.runningSchedules.get(id) === run) {
+          this.runningSchedules.delete(id);
+        }
+      });
+
+    this.runningSchedules.set(id, run);
+
+    return run;
+  }
+
+  private handleRunError(id: string, error: unknown): void {
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', error, id);
+    } else {
+      debugLog(`Failed to run DCA schedule ${id}:`, error);
+    }
+  }
+
+  private async executeDueRuns(id: string): Promise<void> {
+    const schedule = await this.store.get(id);
+
+    if (!schedule || schedule.status !== 'active') {
+      return;
+    }
+
+    const now = this.timers.now();
+    const dueTimes: number[] = [];
+
+    while (
+      schedule.nextRunAt <= now &&
+      (schedule.endAt === undefined || schedule.nextRunAt <= schedule.endAt)
+    ) {
+      dueTimes.push(schedule.nextRunAt);
+      schedule.nextRunAt += schedule.intervalMs;
+    }
+
+    if (schedule.endAt !== undefined && schedule.nextRunAt > schedule.endAt) {
+      schedule.status = 'completed';
+    }
+
+    // Only the latest due run is still within its interval; any earlier ones were missed
+    const runTimes =
+      (schedule.missedRunPolicy ?? 'runAll') === 'runAll' ? dueTimes : dueTimes.slice(-1);
+
+    for (const scheduledAt of dueTimes.filter((time) => !runTimes.includes(time))) {
+      const execution: DcaExecution = { scheduledAt, executedAt: now, status: 'missed' };
+      schedule.executions.push(execution);
+      this.emit('execution', schedule, execution);
+    }
+
+    // Save before trading, so that a run is never repeated if the process exits during it
+    await this.store.save(schedule);
+
+    for (const scheduledAt of runTimes) {
+      const { execution, transaction } = await this.execute(schedule, scheduledAt);
+      schedule.executions.push(execution);
+      await this.store.save(schedule);
+
+      if (transaction) {
+        // Confirmations can take a while, so the next run doesn't wait for them
+        void this.recordResult(schedule.id, execution, transaction);
+      } else {
+        this.emit('execution', schedule, execution);
+      }
+    }
+
+    this.arm(schedule);
+  }
+
+  private async execute(
+    schedule: DcaSchedule,
+    scheduledAt: number,
+  ): Promise<{
+    execution: DcaExecution;
+    transaction?: PendingTransaction<SwapTransactionResult> | undefined;
+  }> {
+    const executedAt = this.timers.now();
+
+    try {
+      const { quote, amountOutMinimum, transaction } = await this.swapsService.swapWithSlippage({
+        tokenIn: schedule.tokenIn,
+        tokenOut: schedule.tokenOut,
+        exactIn: schedule.amountIn,
+        slippageBps: schedule.slippageBps,
+        maxPriceImpact: schedule.maxPriceImpact,
+        walletAddress: schedule.walletAddress,
+      });
+
+      return {
+        execution: {
+          scheduledAt,
+          executedAt,
+          status: 'submitted',
+          transactionId: transaction.transactionId,
+          feeTier: quote.feeTier,
+          inTokenAmount: quote.inTokenAmount.toFixed(),
+          outTokenAmount: quote.outTokenAmount.toFixed(),
+          amountOutMinimum: amountOutMinimum?.toFixed(),
+        },
+        transaction,
+      };
+    } catch (error) {
+      return {
+        execution: {
+          scheduledAt,
+          executedAt,
+          status: 'failed',
+          error: error instanceof Error ? error.message : String(error),
+        },
+      };
+    }
+  }
+
+  private async recordResult(
+    id: string,
+    execution: DcaExecution,
+    transaction: PendingTransaction<SwapTransactionResult>,
+  ): Promise<void> {
+    await this.waitForResult(execution, transaction);
+
+    // Later runs may have saved the schedule since, so update the execution in the stored schedule
+    await this.enqueue(id, async () => {
+      const schedule = await this.store.get(id);
+      const index =
+        schedule?.executions.findIndex(
+          (stored) => stored.transactionId === execution.transactionId,
+        ) ?? -1;
+
+      if (!schedule || index === -1) {
+        // The schedule was removed
+        return;
+      }
+
+      schedule.executions[index] = execution;
+      await this.store.save(schedule);
+      this.emit('execution', schedule, execution);
+    });
+  }
+
+  private async waitForResult(
+    execution: DcaExecution,
+    transaction: PendingTransaction<SwapTransactionResult>,
+  ): Promise<void> {
+    try {
+      const { inTokenAmount, outTokenAmount } = await transaction.wait();
+      execution.status = 'succeeded';
+      execution.inTokenAmount = inTokenAmount.toFixed();
+      execution.outTokenAmount = outTokenAmount.toFixed();
+    } catch (error) {
+      if (error instanceof GSwapSDKError && error.code === 'TRANSACTION_WAIT_FAILED') {
+        execution.status = 'failed';
+      } else if (error instanceof GSwapSDKError && error.code === 'UNEXPECTED_TRANSACTION_RESULT') {
+        // The swap went through, but only the quoted amounts are known
+        execution.status = 'succeeded';
+      }
+
+      // Otherwise the swap may still have succeeded, so it stays submitted
+      execution.error = error instanceof Error ? error.message : String(error);
+    }
+  }
+}
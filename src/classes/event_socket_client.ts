@@ -57,9 +57,19 @@ export class EventSocketClient extends TradeEventEmitter {
         return;
       }
 
+      // Reconnecting creates a new socket, so that a failed attempt doesn't keep retrying in the background
+      if (this.socket) {
+        this.socket.removeAllListeners();
+        this.socket.offAny();
+        this.socket.disconnect();
+      }
+
+      // Reconnection is handled by Events, which reconciles pending transactions afterwards
       this.socket = io(this.bundlerUrl, {
         transports: ['websocket'],
         autoConnect: true,
+        reconnection: false,
+        forceNew: true,
       });
 
       this.socket.on('connect', () => {
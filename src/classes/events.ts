@@ -1,104 +1,236 @@
+import { EventEmitter } from 'events';
+import { RequestOptions } from '../types/request_options.js';
+import { systemTimers, TimerHandle, Timers } from '../types/timers.js';
 import { debugLog } from '../utils/debug.js';
 import { BundlerResponse, EventSocketClient, TradeEventEmitter } from './event_socket_client.js';
 import { GSwapSDKError } from './gswap_sdk_error.js';
-import { TransactionWaiter } from './tx_waiter.js';
+import { TransactionStatus, TransactionStatusCheck, TransactionWaiter } from './tx_waiter.js';
+
+export type { TransactionStatus } from './tx_waiter.js';
+
+/**
+ * The state of the event socket connection.
+ * While `reconnecting`, pending transactions stay pending and are reconciled once the connection is back.
+ */
+export type EventSocketConnectionState =
+  'disconnected' | 'connecting' | 'connected' | 'reconnecting';
+
+/**
+ * Emitted as `connectionStateChange` whenever the state of the event socket connection changes.
+ */
+export interface EventSocketConnectionStateChange {
+  state: EventSocketConnectionState;
+  previousState: EventSocketConnectionState;
+  /** While reconnecting, the number of the upcoming reconnection attempt, starting at 1 */
+  attempt?: number | undefined;
+  /** While reconnecting, how long until the upcoming reconnection attempt, in milliseconds */
+  delayMs?: number | undefined;
+  /** The error that made the previous connection attempt fail, if any */
+  error?: unknown;
+}
+
+/**
+ * Options for the event socket connection.
+ */
+export interface EventSocketOptions {
+  /** Whether to reconnect automatically when the connection drops. Defaults to true. */
+  reconnect?: boolean | undefined;
+  /** Delay before the first reconnection attempt, in milliseconds. It doubles with each failed attempt. Defaults to 1,000 milliseconds. */
+  reconnectInitialDelayMs?: number | undefined;
+  /** Longest delay between reconnection attempts, in milliseconds. Defaults to 30,000 milliseconds. */
+  reconnectMaxDelayMs?: number | undefined;
+  /** How many times to try reconnecting before giving up and failing pending transactions. Defaults to unlimited. */
+  reconnectMaxAttempts?: number | undefined;
+  /** Timers used to schedule reconnection attempts. Defaults to the system timers. */
+  timers?: Timers | undefined;
+}
 
 /**
  * Service for handling real-time event streaming and socket connections.
- * Manages the global socket connection for transaction status updates.
+ * Each {@link GSwap} instance has its own, connected to its bundler, as `gSwap.events`.
+ * {@link Events.instance} (also available as the static `GSwap.events`) is a process-wide hub kept for compatibility.
+ *
+ * Events:
+ * - `connectionStateChange` ({@link EventSocketConnectionStateChange}): the connection state changed
+ * - `transaction` (transaction ID, {@link BundlerResponse}): a transaction was processed or failed, whoever submitted it
  */
-export class Events {
-  private globalSocketClient?: TradeEventEmitter | undefined;
-  private globalWaitHelper = new TransactionWaiter();
+export class Events extends EventEmitter {
+  private socketClient?: TradeEventEmitter | undefined;
+  private waitHelper = new TransactionWaiter();
   private connectionPromise?: Promise<TradeEventEmitter> | undefined;
+  private state: EventSocketConnectionState = 'disconnected';
+  private socketOptions: EventSocketOptions = {};
+  private reconnectAttempt = 0;
+  private reconnectTimer?: TimerHandle | undefined;
+
+  private readonly handleSocketMessage = this.internalHandleSocketMessage.bind(this);
+  private readonly handleSocketDisconnect = this.internalHandleSocketDisconnect.bind(this);
+  private readonly handleSocketError = (error: unknown) => {
+    debugLog('Event socket error:', error);
+  };
+
+  /**
+   * @param bundlerBaseUrl - The bundler to connect to when {@link Events.connectEventSocket} is called without a URL.
+   */
+  constructor(private readonly bundlerBaseUrl = 'https://bundle-backend-prod1.defi.gala.com') {
+    super();
+  }
 
   public static readonly instance = new Events();
   public static tradeEventEmitterConstructor: new (url: string) => TradeEventEmitter =
     EventSocketClient;
 
   /**
-   * Establishes a global socket connection for real-time event streaming.
-   * This connection is shared across all service instances.
-   * @param bundlerBaseUrl - Optional bundler base URL. If not provided, uses default.
+   * Establishes a socket connection for real-time event streaming.
+   * @param bundlerBaseUrl - Optional bundler base URL. If not provided, uses the bundler this hub was created for
+   * (the production bundler for {@link Events.instance}).
+   * @param options - Connection options, such as how to reconnect when the connection drops.
    * @returns The connected EventSocketClient.
    * @example
    * ```typescript
-   * await eventsService.connectEventSocket();
+   * await gSwap.events.connectEventSocket();
    *
    * // Socket is now available for transaction updates
    * ```
    */
-  async connectEventSocket(bundlerBaseUrl?: string): Promise<TradeEventEmitter> {
+  async connectEventSocket(
+    bundlerBaseUrl?: string,
+    options?: EventSocketOptions,
+  ): Promise<TradeEventEmitter> {
     if (this.connectionPromise) {
       return this.connectionPromise;
     }
 
-    if (this.globalSocketClient?.isConnected()) {
-      return this.globalSocketClient;
+    if (this.socketClient?.isConnected()) {
+      return this.socketClient;
     }
 
-    const url = bundlerBaseUrl ?? 'https://bundle-backend-prod1.defi.gala.com';
+    // Replace a client that is still trying to reconnect, keeping its pending transactions
+    const wasReconnecting = this.state === 'reconnecting';
+    this.cancelReconnect();
+    this.releaseSocketClient();
+
+    const url = bundlerBaseUrl ?? this.bundlerBaseUrl;
+    this.socketOptions = options ?? {};
+    this.setConnectionState('connecting');
+
     this.connectionPromise = (async () => {
       const client = new Events.tradeEventEmitterConstructor(url);
+      client.on('error', this.handleSocketError);
       await client.connect();
 
-      if (!this.globalWaitHelper) {
-        this.globalWaitHelper = new TransactionWaiter();
+      if (!this.waitHelper) {
+        this.waitHelper = new TransactionWaiter();
       }
 
-      client.on('transaction', this.internalHandleSocketMessage.bind(this));
+      client.on('transaction', this.handleSocketMessage);
+      client.on('disconnect', this.handleSocketDisconnect);
 
       return client;
     })();
 
-    this.globalSocketClient = await this.connectionPromise;
-    this.connectionPromise = undefined;
-    this.globalWaitHelper.setEnabled(true);
+    try {
+      this.socketClient = await this.connectionPromise;
+    } catch (error) {
+      this.waitHelper.setEnabled(false);
+      this.setConnectionState('disconnected', { error });
+      throw error;
+    } finally {
+      this.connectionPromise = undefined;
+    }
+
+    this.waitHelper.setEnabled(true);
+    this.setConnectionState('connected');
 
-    return this.globalSocketClient;
+    if (wasReconnecting) {
+      this.reconcilePendingTransactions();
+    }
+
+    return this.socketClient;
   }
 
   /**
-   * Disconnects the global socket connection and cleans up resources.
+   * Disconnects the socket connection and cleans up resources.
+   * Transactions that are still being waited on through the socket fail.
    */
   disconnectEventSocket(): void {
-    if (this.globalSocketClient) {
-      this.globalSocketClient.off('transaction', this.internalHandleSocketMessage.bind(this));
-      this.globalSocketClient.disconnect();
-      this.globalSocketClient = undefined;
-      this.globalWaitHelper.setEnabled(false);
+    this.cancelReconnect();
+
+    if (this.releaseSocketClient()) {
+      this.waitHelper.setEnabled(false);
+      this.setConnectionState('disconnected');
     }
   }
 
   /**
-   * Checks if the global socket connection is active.
+   * Checks if the socket connection is active.
    * @returns True if connected, false otherwise.
    */
   eventSocketConnected(): boolean {
-    return this.globalSocketClient?.isConnected() ?? false;
+    return this.socketClient?.isConnected() ?? false;
+  }
+
+  /**
+   * The state of the socket connection.
+   */
+  get connectionState(): EventSocketConnectionState {
+    return this.state;
   }
 
   /**
    * Registers a transaction ID for waiting and timeout handling.
    * @param txId - The transaction ID to register.
    * @param timeoutMs - Timeout in milliseconds.
+   * @param checkStatus - Fetches the transaction's status, to reconcile it after reconnecting.
    */
-  registerTxId(txId: string, timeoutMs: number): void {
-    this.globalWaitHelper.registerTxId(txId, timeoutMs);
+  registerTxId(txId: string, timeoutMs: number, checkStatus?: TransactionStatusCheck): void {
+    this.waitHelper.registerTxId(txId, timeoutMs, checkStatus);
   }
 
   /**
-   * Waits for a transaction to complete.
+   * Checks whether a transaction ID is registered for waiting, which it is when it was submitted while connected.
+   * @param txId - The transaction ID.
+   * @returns True if the transaction can be waited on through the socket.
+   */
+  isTxIdRegistered(txId: string): boolean {
+    return this.waitHelper.isRegistered(txId);
+  }
+
+  /**
+   * Gets the status of a transaction submitted while connected: pending, or its outcome if it completed recently.
+   * The outcomes of the most recent 1,000 transactions are kept.
+   * @param txId - The transaction ID.
+   * @returns The status, or `undefined` if the transaction isn't known.
+   * @example
+   * ```typescript
+   * const status = gSwap.events.getTransactionStatus(pendingTx.transactionId);
+   * if (status?.status === 'PROCESSED') {
+   *   console.log('Transaction hash:', status.transactionHash);
+   * }
+   * ```
+   */
+  getTransactionStatus(txId: string): TransactionStatus | undefined {
+    return this.waitHelper.getStatus(txId);
+  }
+
+  /**
+   * Waits for a transaction to complete. If it already completed recently, its outcome is returned right away.
    * @param txId - The transaction ID to wait for.
+   * @param options - Wait options. Aborting the `signal` rejects this wait with the `ABORTED` error. Other waits
+   * for the transaction carry on, and once none are left, the transaction is no longer tracked.
    * @returns Promise that resolves when the transaction completes.
    */
   async wait(
     txId: string,
+    options?: RequestOptions,
   ): Promise<{ txId: string; transactionHash: string; Data: Record<string, unknown> }> {
-    if (!this.eventSocketConnected()) {
+    const status = this.waitHelper.getStatus(txId);
+    const completed = status !== undefined && status.status !== 'PENDING';
+
+    if (!completed && !this.eventSocketConnected() && this.state !== 'reconnecting') {
       throw GSwapSDKError.socketConnectionRequiredError();
     }
-    return this.globalWaitHelper.wait(txId);
+    return this.waitHelper.wait(txId, options?.signal);
   }
 
   /**
@@ -107,13 +239,130 @@ export class Events {
    * @param txId - The transaction ID.
    */
   private internalHandleSocketMessage(txId: string, response: BundlerResponse): void {
+    this.emit('transaction', txId, response);
+
     if (response.status === 'PROCESSED') {
-      this.globalWaitHelper.notifySuccess(txId, response.data);
+      this.waitHelper.notifySuccess(txId, response.data);
     } else if (response.status === 'FAILED') {
-      this.globalWaitHelper.notifyFailure(txId, response.data);
+      this.waitHelper.notifyFailure(txId, response.data);
     } else {
       // @ts-expect-error - Property 'status' does not exist on type 'never'.ts(2339)
       debugLog(`Unknown response status for transaction ${txId}:`, response.status);
     }
   }
+
+  private internalHandleSocketDisconnect(reason: unknown): void {
+    if (this.state !== 'connected') {
+      return;
+    }
+
+    debugLog('Event socket disconnected:', reason);
+
+    if (this.socketOptions.reconnect === false) {
+      this.disconnectEventSocket();
+      return;
+    }
+
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect(error?: unknown): void {
+    const attempt = ++this.reconnectAttempt;
+
+    if (attempt > (this.socketOptions.reconnectMaxAttempts ?? Infinity)) {
+      debugLog('Giving up reconnecting to the event socket after', attempt - 1, 'attempts');
+      this.disconnectEventSocket();
+      return;
+    }
+
+    const delayMs = Math.min(
+      (this.socketOptions.reconnectInitialDelayMs ?? 1000) * 2 ** (attempt - 1),
+      this.socketOptions.reconnectMaxDelayMs ?? 30_000,
+    );
+
+    this.setConnectionState('reconnecting', { attempt, delayMs, error });
+
+    const timers = this.socketOptions.timers ?? systemTimers;
+    this.reconnectTimer = timers.setTimeout(() => {
+      this.reconnectTimer = undefined;
+      void this.reconnect();
+    }, delayMs);
+  }
+
+  private async reconnect(): Promise<void> {
+    const client = this.socketClient;
+    if (!client) {
+      return;
+    }
+
+    try {
+      await client.connect();
+    } catch (error) {
+      if (this.socketClient === client) {
+        this.scheduleReconnect(error);
+      }
+
+      return;
+    }
+
+    // Disconnected on purpose while the attempt was in flight
+    if (this.socketClient !== client) {
+      return;
+    }
+
+    this.reconnectAttempt = 0;
+    this.setConnectionState('connected');
+    this.reconcilePendingTransactions();
+  }
+
+  // Transactions may have finished while events could not be received, so check on them
+  private reconcilePendingTransactions(): void {
+    for (const [txId, checkStatus] of this.waitHelper.getPendingStatusChecks()) {
+      checkStatus()
+        .then((response) => {
+          if (response) {
+            this.internalHandleSocketMessage(txId, response);
+          }
+        })
+        .catch((error: unknown) => {
+          debugLog(`Failed to reconcile transaction ${txId}:`, error);
+        });
+    }
+  }
+
+  // Detaches and disconnects the current client, if there is one
+  private releaseSocketClient(): boolean {
+    const client = this.socketClient;
+    if (!client) {
+      return false;
+    }
+
+    client.off('transaction', this.handleSocketMessage);
+    client.off('disconnect', this.handleSocketDisconnect);
+    client.disconnect();
+    client.off('error', this.handleSocketError);
+    this.socketClient = undefined;
+
+    return true;
+  }
+
+  private cancelReconnect(): void {
+    if (this.reconnectTimer !== undefined) {
+      (this.socketOptions.timers ?? systemTimers).clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+
+    this.reconnectAttempt = 0;
+  }
+
+  private setConnectionState(
+    state: EventSocketConnectionState,
+    details?: Pick<EventSocketConnectionStateChange, 'attempt' | 'delayMs' | 'error'>,
+  ): void {
+    const previousState = this.state;
+    this.state = state;
+
+    const change: EventSocketConnectionStateChange = { state, previousState, ...details };
+    this.emit('connectionStateChange', change);
+  }
 }
@@ -1,4 +1,7 @@
+import { FeeTierConfig } from '../types/fees.js';
+import { HttpMiddleware } from '../types/http_middleware.js';
 import { HttpRequestor } from '../types/http_requestor.js';
+import { RetryPolicy } from '../types/retry_policy.js';
 import { Assets } from './assets.js';
 import { Bundler } from './bundler.js';
 import { Events } from './events.js';
@@ -95,23 +98,39 @@ export class GSwap {
   public readonly assets: Assets;
 
   /**
-   * Event management operations for real-time socket connections.
+   * Event management operations for real-time socket connections, connected to this instance's bundler.
    * Use this to manage event streaming and transaction status updates.
    *
    * @example
    * ```typescript
    * // Connect to event socket for transaction updates
-   * await GSwap.events.connectEventSocket();
+   * await gSwap.events.connectEventSocket();
    *
    * // Check if socket is connected
-   * const isConnected = GSwap.events.eventSocketConnected();
+   * const isConnected = gSwap.events.eventSocketConnected();
    * ```
    */
+  public readonly events: Events;
+
+  /**
+   * A process-wide event hub, connected to the production bundler by default.
+   * Instances whose own event hub isn't connected wait on transactions through this one, if it is connected.
+   * @deprecated Use the event hub of your instance, `gSwap.events`, which connects to the bundler the instance was created with.
+   */
   public static readonly events = Events.instance;
 
+  /**
+   * Transaction submission. Use this to submit requests that were signed separately (e.g. offline).
+   *
+   * @example
+   * ```typescript
+   * const pendingTx = await gSwap.bundler.submitSigned(Bundler.parseSignedRequest(signedJson));
+   * ```
+   */
+  public readonly bundler: Bundler;
+
   private readonly httpClient: HttpClient;
   private readonly httpRequestor: HttpRequestor;
-  private readonly bundler: Bundler;
   public readonly pools: Pools;
 
   /**
@@ -125,8 +144,14 @@ export class GSwap {
    * @param options.bundlingAPIBasePath - Base path for transaction bundling API endpoints.
    * @param options.dexBackendBaseUrl - Base URL for the DEX backend API (for user assets and other data).
    * @param options.httpRequestor - Custom HTTP requestor to use for API calls. Defaults to the global `fetch` function.
+   * @param options.middleware - Middleware that every HTTP request goes through, in order, such as to add authentication headers or log requests. More can be added later with {@link GSwap.use}.
+   * @param options.retryPolicy - How to retry requests that fail because of a temporary problem, such as a 503 response from an overloaded gateway. Defaults to three attempts with exponential backoff. Bundler submissions are only retried when they were turned away with a 429 response.
    * @param options.transactionWaitTimeoutMs - Timeout in milliseconds for waiting for transactions to complete. Defaults to 300,000 milliseconds (five minutes).
+   * @param options.transactionStatusPollIntervalMs - When a transaction is waited on without an event socket connection, how often to poll its status, in milliseconds. Defaults to 2,000 milliseconds.
+   * @param options.transactionStatusPath - Path of the transaction status endpoint polled without an event socket connection, relative to the bundler base URL. Defaults to `/transaction-status`.
    * @param options.walletAddress - Optional default wallet address for operations that require a wallet address (e.x. swapping). If not provided, you must specify the wallet address in each method call.
+   * @param options.feeTiers - Fee tiers (and their tick spacings) to check when quoting across fee tiers. Defaults to {@link DEFAULT_FEE_TIERS}.
+   * @param options.discoverFeeTiers - If true, quotes only check fee tiers that have a pool for the token pair. Which pools exist is discovered once per pair and cached. Defaults to false.
    */
   constructor(options?: {
     signer?: GalaChainSigner | undefined;
@@ -137,8 +162,14 @@ export class GSwap {
     bundlingAPIBasePath?: string | undefined;
     dexBackendBaseUrl?: string | undefined;
     transactionWaitTimeoutMs?: number | undefined;
+    transactionStatusPollIntervalMs?: number | undefined;
+    transactionStatusPath?: string | undefined;
     walletAddress?: string | undefined;
     httpRequestor?: HttpRequestor | undefined;
+    middleware?: HttpMiddleware[] | undefined;
+    retryPolicy?: RetryPolicy | undefined;
+    feeTiers?: FeeTierConfig[] | undefined;
+    discoverFeeTiers?: boolean | undefined;
   }) {
     this.gatewayBaseUrl =
       options?.gatewayBaseUrl?.replace(/\/$/, '') ?? 'https://gateway-mainnet.galachain.com';
@@ -152,7 +183,8 @@ export class GSwap {
     this.transactionWaitTimeoutMs = options?.transactionWaitTimeoutMs ?? 300_000; // 5 minutes
     this.httpRequestor = options?.httpRequestor ?? fetch.bind(globalThis);
 
-    this.httpClient = new HttpClient(this.httpRequestor);
+    this.httpClient = new HttpClient(this.httpRequestor, options?.retryPolicy, options?.middleware);
+    this.events = new Events(this.bundlerBaseUrl);
 
     this.bundler = new Bundler(
       this.bundlerBaseUrl,
@@ -160,11 +192,22 @@ export class GSwap {
       this.transactionWaitTimeoutMs,
       this.signer,
       this.httpClient,
+      {
+        transactionStatusPath: options?.transactionStatusPath,
+        transactionStatusPollIntervalMs: options?.transactionStatusPollIntervalMs,
+        events: this.events,
+      },
     );
 
-    this.pools = new Pools(this.gatewayBaseUrl, this.dexContractBasePath, this.httpClient);
+    this.pools = new Pools(this.gatewayBaseUrl, this.dexContractBasePath, this.httpClient, {
+      feeTiers: options?.feeTiers,
+      events: this.events,
+    });
 
-    this.quoting = new Quoting(this.gatewayBaseUrl, this.dexContractBasePath, this.httpClient);
+    this.quoting = new Quoting(this.gatewayBaseUrl, this.dexContractBasePath, this.httpClient, {
+      poolService: this.pools,
+      discoverFeeTiers: options?.discoverFeeTiers,
+    });
 
     this.positions = new Positions(
       this.gatewayBaseUrl,
@@ -175,8 +218,29 @@ export class GSwap {
       { walletAddress: options?.walletAddress },
     );
 
-    this.swaps = new Swaps(this.bundler, { walletAddress: options?.walletAddress });
+    this.swaps = new Swaps(this.bundler, {
+      walletAddress: options?.walletAddress,
+      quotingService: this.quoting,
+    });
 
     this.assets = new Assets(this.dexBackendBaseUrl, this.httpClient);
   }
+
+  /**
+   * Adds a middleware to the end of the chain that every HTTP request of this instance goes through.
+   * Each middleware sees the request (its endpoint, headers and body) before it is sent, and the parsed response.
+   * @param middleware - The middleware to add.
+   * @example
+   * ```typescript
+   * gSwap.use(async (request, next) => {
+   *   const startedAt = Date.now();
+   *   const response = await next(request);
+   *   console.log(`${request.endpoint}: ${response.status} in ${Date.now() - startedAt}ms`);
+   *   return response;
+   * });
+   * ```
+   */
+  use(middleware: HttpMiddleware): void {
+    this.httpClient.use(middleware);
+  }
 }
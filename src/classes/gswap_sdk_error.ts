@@ -1,3 +1,4 @@
+import BigNumber from 'bignumber.js';
 import { HTTPResponse } from '../types/http_requestor.js';
 import { GalaChainTokenClassKey } from '../types/token.js';
 
@@ -28,41 +29,49 @@ export class GSwapSDKError extends Error {
       }
     })();
 
+    return GSwapSDKError.fromErrorBody(url, response.status, bodyJson ?? bodyText);
+  }
+
+  /**
+   * Creates the error for a failed HTTP response whose body has already been read.
+   * @param body - The parsed JSON body, or the body text if it isn't JSON.
+   */
+  public static fromErrorBody(url: string, status: number, body: unknown) {
     const errorKey =
-      typeof bodyJson === 'object' &&
-      bodyJson &&
-      'error' in bodyJson &&
-      typeof bodyJson.error === 'object' &&
-      bodyJson.error &&
-      'ErrorKey' in bodyJson.error &&
-      typeof bodyJson.error.ErrorKey === 'string'
-        ? bodyJson.error.ErrorKey
+      typeof body === 'object' &&
+      body &&
+      'error' in body &&
+      typeof body.error === 'object' &&
+      body.error &&
+      'ErrorKey' in body.error &&
+      typeof body.error.ErrorKey === 'string'
+        ? body.error.ErrorKey
         : undefined;
 
     const message =
-      typeof bodyJson === 'object' &&
-      bodyJson &&
-      'error' in bodyJson &&
-      typeof bodyJson.error === 'object' &&
-      bodyJson.error &&
-      'Message' in bodyJson.error &&
-      typeof bodyJson.error.Message === 'string'
-        ? bodyJson.error.Message
+      typeof body === 'object' &&
+      body &&
+      'error' in body &&
+      typeof body.error === 'object' &&
+      body.error &&
+      'Message' in body.error &&
+      typeof body.error.Message === 'string'
+        ? body.error.Message
         : undefined;
 
     if (errorKey && message) {
       return new GSwapSDKError(`GalaChain Error ${errorKey} from ${url}: ${message}`, errorKey, {
         message,
         errorKey,
-        status: response.status,
-        body: bodyJson,
+        status,
+        body,
         url,
       });
     }
 
-    return new GSwapSDKError(`Unexpected HTTP Error ${response.status} from ${url}`, 'HTTP_ERROR', {
-      status: response.status,
-      body: bodyJson ?? bodyText,
+    return new GSwapSDKError(`Unexpected HTTP Error ${status} from ${url}`, 'HTTP_ERROR', {
+      status,
+      body,
       url,
     });
   }
@@ -87,20 +96,32 @@ export class GSwapSDKError extends Error {
     });
   }
 
-  public static transactionWaitFailedError(txId: string, detail: Record<string, unknown>) {
-    const transactionHash =
-      'transactionId' in detail && typeof detail.transactionId === 'string'
-        ? detail.transactionId
-        : undefined;
+  /**
+   * Creates the error for an operation that was cancelled through its `AbortSignal`.
+   * @param reason - The signal's abort reason.
+   * @param details - What was being done, such as the `url` or `txId`.
+   */
+  public static abortedError(reason: unknown, details?: Record<string, unknown>) {
+    return new GSwapSDKError('The operation was aborted.', 'ABORTED', { ...details, reason });
+  }
 
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    const { transactionId, ...rest } = detail;
+  /**
+   * Creates the error for a transaction that failed on chain. Known GalaChain error keys map to
+   * subclasses of {@link TransactionFailedError}, such as {@link SlippageExceededError}.
+   */
+  public static transactionWaitFailedError(txId: string, detail: Record<string, unknown>) {
+    return TransactionFailedError.fromFailureDetail(txId, detail);
+  }
 
-    return new GSwapSDKError('Transaction wait failed.', 'TRANSACTION_WAIT_FAILED', {
-      txId,
-      transactionHash,
-      ...rest,
-    });
+  public static unexpectedTransactionResultError(data: unknown, reason: string) {
+    return new GSwapSDKError(
+      `Unexpected transaction result: ${reason}`,
+      'UNEXPECTED_TRANSACTION_RESULT',
+      {
+        reason,
+        data,
+      },
+    );
   }
 
   public static socketConnectionRequiredError() {
@@ -126,4 +147,227 @@ export class GSwapSDKError extends Error {
       fee,
     });
   }
+
+  public static priceImpactTooHighError(
+    tokenIn: GalaChainTokenClassKey | string,
+    tokenOut: GalaChainTokenClassKey | string,
+    priceImpact: BigNumber.Value,
+    maxPriceImpact: BigNumber.Value,
+  ) {
+    return new GSwapSDKError(
+      'The price impact of this trade is higher than the allowed maximum',
+      'PRICE_IMPACT_TOO_HIGH',
+      {
+        tokenIn,
+        tokenOut,
+        priceImpact: BigNumber(priceImpact).toFixed(),
+        maxPriceImpact: BigNumber(maxPriceImpact).toFixed(),
+      },
+    );
+  }
+}
+
+function getString(value: unknown) {
+  return typeof value === 'string' ? value : undefined;
+}
+
+function getAmount(value: unknown) {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return undefined;
+  }
+
+  const amount = BigNumber(value);
+  return amount.isFinite() ? amount : undefined;
+}
+
+function getPayload(detail: Record<string, unknown>) {
+  const payload = detail.ErrorPayload;
+  return typeof payload === 'object' && payload !== null && !Array.isArray(payload)
+    ? (payload as Record<string, unknown>)
+    : undefined;
+}
+
+/**
+ * A transaction that was submitted but failed on chain, as reported by the bundler.
+ * Failures with a known cause are reported as one of the subclasses below.
+ */
+export class TransactionFailedError extends GSwapSDKError {
+  /** The transaction ID assigned by the bundler */
+  public readonly txId: string;
+  /** The hash of the transaction on chain, if it got that far */
+  public readonly transactionHash: string | undefined;
+  /** The GalaChain error key, such as `INSUFFICIENT_BALANCE` */
+  public readonly errorKey: string | undefined;
+  /** The GalaChain error code, which follows HTTP status codes (e.g. 404 when something was not found) */
+  public readonly errorCode: number | undefined;
+  /** The error message reported by the chain */
+  public readonly chainMessage: string | undefined;
+  /** The structured error payload reported by the chain */
+  public readonly errorPayload: Record<string, unknown> | undefined;
+  /** Whether submitting the operation again (for example with a fresh quote) may succeed */
+  public readonly isRetryable: boolean;
+
+  constructor(txId: string, detail: Record<string, unknown>, isRetryable = false) {
+    const transactionHash = getString(detail.transactionId);
+
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { transactionId, ...rest } = detail;
+
+    super('Transaction wait failed.', 'TRANSACTION_WAIT_FAILED', {
+      txId,
+      transactionHash,
+      ...rest,
+    });
+
+    this.name = new.target.name;
+    this.txId = txId;
+    this.transactionHash = transactionHash;
+    this.errorKey = getString(detail.ErrorKey);
+    this.errorCode = typeof detail.ErrorCode === 'number' ? detail.ErrorCode : undefined;
+    this.chainMessage = getString(detail.Message);
+    this.errorPayload = getPayload(detail);
+    this.isRetryable = isRetryable;
+  }
+
+  /**
+   * Creates the most specific error for the failure the bundler reported, using {@link chainErrorCatalogue}.
+   * @param txId - The transaction ID.
+   * @param detail - The failure data, with the chain's `ErrorKey`, `ErrorCode`, `ErrorPayload` and `Message`.
+   * @returns The error.
+   */
+  public static fromFailureDetail(txId: string, detail: Record<string, unknown>) {
+    const errorKey = getString(detail.ErrorKey);
+    const message = getString(detail.Message) ?? '';
+
+    const entry = chainErrorCatalogue.find(
+      (candidate) =>
+        errorKey !== undefined &&
+        candidate.errorKeys.includes(errorKey) &&
+        (!candidate.messagePattern || candidate.messagePattern.test(message)),
+    );
+
+    return entry ? entry.create(txId, detail) : new TransactionFailedError(txId, detail);
+  }
+}
+
+/**
+ * The swap would have bought less (or sold more) than its slippage protection allows.
+ * This is retryable: the price moved, so the swap can be quoted again and resubmitted.
+ */
+export class SlippageExceededError extends TransactionFailedError {
+  constructor(txId: string, detail: Record<string, unknown>) {
+    super(txId, detail, true);
+  }
+}
+
+/**
+ * The wallet doesn't hold enough of a token for the operation.
+ */
+export class InsufficientBalanceError extends TransactionFailedError {
+  /** The wallet that was short, if the chain reported it */
+  public readonly owner: string | undefined;
+  /** The quantity the operation needed, if the chain reported it */
+  public readonly quantity: BigNumber | undefined;
+  /** The quantity the wallet could spend, if the chain reported it */
+  public readonly spendableQuantity: BigNumber | undefined;
+
+  constructor(txId: string, detail: Record<string, unknown>) {
+    super(txId, detail);
+
+    this.owner = getString(this.errorPayload?.owner);
+    this.quantity = getAmount(this.errorPayload?.quantity);
+    this.spendableQuantity = getAmount(this.errorPayload?.spendableQuantity);
+  }
+}
+
+/**
+ * The pool for the operation's token pair and fee tier doesn't exist.
+ */
+export class PoolNotFoundError extends TransactionFailedError {
+  constructor(txId: string, detail: Record<string, unknown>) {
+    super(txId, detail);
+  }
 }
+
+/**
+ * A tick (or the price it was derived from) is outside the range the pool supports.
+ */
+export class TickOutOfRangeError extends TransactionFailedError {
+  /** The offending tick, if the chain reported it */
+  public readonly tick: number | undefined;
+
+  constructor(txId: string, detail: Record<string, unknown>) {
+    super(txId, detail);
+
+    this.tick = typeof this.errorPayload?.tick === 'number' ? this.errorPayload.tick : undefined;
+  }
+}
+
+/**
+ * A transaction with the same unique key was already submitted. Resubmitting would repeat the
+ * operation, so check the outcome of the original transaction instead.
+ */
+export class DuplicateUniqueKeyError extends TransactionFailedError {
+  /** The unique key that was reused, if the chain reported it */
+  public readonly uniqueKey: string | undefined;
+
+  constructor(txId: string, detail: Record<string, unknown>) {
+    super(txId, detail);
+
+    this.uniqueKey = getString(this.errorPayload?.uniqueKey);
+  }
+}
+
+/**
+ * A known cause of transaction failures.
+ */
+export interface ChainErrorCatalogueEntry {
+  /** The GalaChain error keys the failure is reported with */
+  errorKeys: string[];
+  /** For generic error keys, the pattern the chain's message must match */
+  messagePattern?: RegExp | undefined;
+  /** Creates the error */
+  create: (txId: string, detail: Record<string, unknown>) => TransactionFailedError;
+}
+
+/**
+ * Maps the error keys reported by the DEX and GalaChain contracts to typed errors. Entries are
+ * matched in order, so add more specific entries before generic ones.
+ */
+export const chainErrorCatalogue: ChainErrorCatalogueEntry[] = [
+  {
+    errorKeys: ['SLIPPAGE_TOLERANCE_EXCEEDED'],
+    create: (txId, detail) => new SlippageExceededError(txId, detail),
+  },
+  {
+    errorKeys: ['CONFLICT', 'VALIDATION_FAILED'],
+    messagePattern: /slippage/i,
+    create: (txId, detail) => new SlippageExceededError(txId, detail),
+  },
+  {
+    errorKeys: ['INSUFFICIENT_BALANCE'],
+    create: (txId, detail) => new InsufficientBalanceError(txId, detail),
+  },
+  {
+    errorKeys: ['POOL_NOT_FOUND'],
+    create: (txId, detail) => new PoolNotFoundError(txId, detail),
+  },
+  {
+    errorKeys: ['NOT_FOUND', 'OBJECT_NOT_FOUND'],
+    messagePattern: /pool/i,
+    create: (txId, detail) => new PoolNotFoundError(txId, detail),
+  },
+  {
+    errorKeys: ['TICK_OUT_OF_RANGE', 'INVALID_TICK'],
+    create: (txId, detail) => new TickOutOfRangeError(txId, detail),
+  },
+  {
+    errorKeys: ['VALIDATION_FAILED'],
+    messagePattern: /tick/i,
+    create: (txId, detail) => new TickOutOfRangeError(txId, detail),
+  },
+  {
+    errorKeys: ['UNIQUE_TRANSACTION_CONFLICT', 'DUPLICATE_UNIQUE_KEY'],
+    create: (txId, detail) => new DuplicateUniqueKeyError(txId, detail),
+  },
+];
@@ -1,9 +1,60 @@
-import { HttpRequestor } from '../types/http_requestor.js';
+import {
+  HttpMiddleware,
+  HttpRequestContext,
+  HttpResponseContext,
+} from '../types/http_middleware.js';
+import { HTTPResponse, HttpRequestor } from '../types/http_requestor.js';
+import { RequestOptions } from '../types/request_options.js';
+import { RetryPolicy } from '../types/retry_policy.js';
+import { systemTimers, TimerHandle } from '../types/timers.js';
+import { abortable, throwIfAborted } from '../utils/abort.js';
 import { debugLog } from '../utils/debug.js';
 import { GSwapSDKError } from './gswap_sdk_error.js';
 
+const DEFAULT_RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+// Errors thrown by the HTTP requestor when a request fails at the network level, as opposed to errors from middleware
+const networkErrors = new WeakSet<object>();
+
+export interface HttpRequestOptions extends RequestOptions {
+  /**
+   * Whether sending the request several times has the same effect as sending it once, so that it can be
+   * retried whenever it fails. Defaults to true for GET requests and false for POST requests.
+   */
+  idempotent?: boolean | undefined;
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(value: string | null | undefined, now: number): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value) * 1000;
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(date - now, 0);
+}
+
 export class HttpClient {
-  constructor(private readonly httpRequestor: HttpRequestor = fetch) {}
+  private readonly middleware: HttpMiddleware[];
+
+  constructor(
+    private readonly httpRequestor: HttpRequestor = fetch,
+    private readonly retryPolicy: RetryPolicy = {},
+    middleware: HttpMiddleware[] = [],
+  ) {
+    this.middleware = [...middleware];
+  }
+
+  /**
+   * Adds a middleware to the end of the chain that every request goes through.
+   */
+  use(middleware: HttpMiddleware): void {
+    this.middleware.push(middleware);
+  }
 
   private async sendRequest<TReturnType>(
     method: 'POST' | 'GET',
@@ -11,27 +62,190 @@ export class HttpClient {
     basePath: string,
     endpoint: string,
     body?: unknown,
+    params?: Record<string, string>,
+    options?: HttpRequestOptions,
   ): Promise<TReturnType> {
-    const url = `${baseUrl}${basePath}${endpoint}`;
+    const query = params ? `?${new URLSearchParams(params).toString()}` : '';
+    const url = `${baseUrl}${basePath}${endpoint}${query}`;
+    const signal = options?.signal;
+    const idempotent = options?.idempotent ?? method === 'GET';
+    throwIfAborted(signal, { url });
+
     debugLog(`Sending request to ${url} with body:`, body);
 
-    const response = await this.httpRequestor(url, {
-      method,
-      headers: {
-        'Content-Type': 'application/json',
-        'User-Agent': 'GalaChain-SDK/0.0',
-      },
-      ...(body ? { body: JSON.stringify(body) } : {}),
-    });
-
-    if (!response.ok) {
-      throw await GSwapSDKError.fromErrorResponse(url, response);
+    try {
+      for (let attempt = 1; ; attempt++) {
+        let response: HttpResponseContext;
+
+        try {
+          response = await this.runMiddleware(
+            {
+              method,
+              url,
+              endpoint: `${basePath}${endpoint}`,
+              headers: {
+                'Content-Type': 'application/json',
+                'User-Agent': 'GalaChain-SDK/0.0',
+              },
+              body,
+              attempt,
+            },
+            signal,
+          );
+        } catch (error) {
+          const delayMs =
+            error instanceof Error && networkErrors.has(error) && !signal?.aborted
+              ? this.getRetryDelay(attempt, idempotent)
+              : undefined;
+
+          if (delayMs === undefined) {
+            throw error;
+          }
+
+          debugLog(`Request to ${url} failed, retrying in ${delayMs}ms:`, error);
+          await this.sleep(delayMs, signal, url);
+          continue;
+        }
+
+        if (!response.ok) {
+          const error = GSwapSDKError.fromErrorBody(url, response.status, response.body);
+          const delayMs = this.getRetryDelay(attempt, idempotent, response);
+
+          if (delayMs === undefined) {
+            throw error;
+          }
+
+          debugLog(`Request to ${url} failed, retrying in ${delayMs}ms:`, error);
+          await this.sleep(delayMs, signal, url);
+          continue;
+        }
+
+        debugLog(`Response from ${url}:`, response.body);
+
+        return response.body as TReturnType;
+      }
+    } catch (error) {
+      // fetch rejects with the signal's reason (or an AbortError), so report it consistently
+      if (signal?.aborted && !(error instanceof GSwapSDKError)) {
+        throw GSwapSDKError.abortedError(signal.reason, { url });
+      }
+
+      throw error;
     }
+  }
 
-    const json = await response.json();
-    debugLog(`Response from ${baseUrl}${basePath}${endpoint}:`, json);
+  private runMiddleware(
+    request: HttpRequestContext,
+    signal: AbortSignal | undefined,
+  ): Promise<HttpResponseContext> {
+    const dispatch = (index: number, request: HttpRequestContext): Promise<HttpResponseContext> => {
+      const middleware = this.middleware[index];
 
-    return json as TReturnType;
+      return middleware
+        ? middleware(request, (nextRequest) => dispatch(index + 1, nextRequest))
+        : this.fetchResponse(request, signal);
+    };
+
+    return dispatch(0, request);
+  }
+
+  private async fetchResponse(
+    request: HttpRequestContext,
+    signal: AbortSignal | undefined,
+  ): Promise<HttpResponseContext> {
+    let response: HTTPResponse;
+
+    try {
+      response = await this.httpRequestor(request.url, {
+        method: request.method,
+        headers: request.headers,
+        ...(request.body ? { body: JSON.stringify(request.body) } : {}),
+        ...(signal ? { signal } : {}),
+      });
+    } catch (error) {
+      // fetch rejects with a TypeError when the request fails at the network level
+      if (error instanceof TypeError) {
+        networkErrors.add(error);
+      }
+
+      throw error;
+    }
+
+    if (response.ok) {
+      return {
+        status: response.status,
+        ok: true,
+        headers: response.headers,
+        body: await response.json(),
+      };
+    }
+
+    const bodyText = await response.text();
+    const body: unknown = (() => {
+      try {
+        return JSON.parse(bodyText) ?? bodyText;
+      } catch {
+        return bodyText;
+      }
+    })();
+
+    return { status: response.status, ok: false, headers: response.headers, body };
+  }
+
+  // Returns how long to wait before retrying, or undefined if the request shouldn't be retried
+  private getRetryDelay(
+    attempt: number,
+    idempotent: boolean,
+    response?: HttpResponseContext,
+  ): number | undefined {
+    const policy = this.retryPolicy;
+
+    if (attempt >= (policy.maxAttempts ?? 3)) {
+      return undefined;
+    }
+
+    if (response) {
+      if (!(policy.retryableStatuses ?? DEFAULT_RETRYABLE_STATUSES).includes(response.status)) {
+        return undefined;
+      }
+
+      // A request that failed otherwise may have been processed, but one that was turned away wasn't
+      if (!idempotent && response.status !== 429) {
+        return undefined;
+      }
+
+      const retryAfterMs = parseRetryAfter(
+        response.headers?.get('Retry-After'),
+        (policy.timers ?? systemTimers).now(),
+      );
+
+      if (retryAfterMs !== undefined) {
+        return retryAfterMs <= (policy.maxRetryAfterMs ?? 60_000) ? retryAfterMs : undefined;
+      }
+    } else if (!idempotent) {
+      return undefined;
+    }
+
+    const backoffMs = Math.min(
+      (policy.initialDelayMs ?? 500) * 2 ** (attempt - 1),
+      policy.maxDelayMs ?? 10_000,
+    );
+
+    return policy.jitter === false ? backoffMs : backoffMs / 2 + (Math.random() * backoffMs) / 2;
+  }
+
+  private sleep(delayMs: number, signal: AbortSignal | undefined, url: string): Promise<void> {
+    const timers = this.retryPolicy.timers ?? systemTimers;
+    let timer: TimerHandle;
+
+    return abortable(
+      new Promise<void>((resolve) => {
+        timer = timers.setTimeout(resolve, delayMs);
+      }),
+      signal,
+      { url },
+      () => timers.clearTimeout(timer),
+    );
   }
 
   async sendPostRequest<TReturnType>(
@@ -39,8 +253,9 @@ export class HttpClient {
     basePath: string,
     endpoint: string,
     body: unknown,
+    options?: HttpRequestOptions,
   ): Promise<TReturnType> {
-    return this.sendRequest('POST', baseUrl, basePath, endpoint, body);
+    return this.sendRequest('POST', baseUrl, basePath, endpoint, body, undefined, options);
   }
 
   async sendGetRequest<TReturnType>(
@@ -48,10 +263,8 @@ export class HttpClient {
     basePath: string,
     endpoint: string,
     params?: Record<string, string>,
+    options?: HttpRequestOptions,
   ): Promise<TReturnType> {
-    const searchParams = params ? new URLSearchParams(params) : undefined;
-    const endpointWithParams = searchParams ? `${endpoint}?${searchParams.toString()}` : endpoint;
-
-    return this.sendRequest('GET', baseUrl, basePath, endpointWithParams, undefined);
+    return this.sendRequest('GET', baseUrl, basePath, endpoint, undefined, params, options);
   }
 }
@@ -1,35 +1,271 @@
+import { EventEmitter } from 'events';
+import { RequestOptions } from '../types/request_options.js';
+import { systemTimers, Timers } from '../types/timers.js';
+import { abortable, throwIfAborted } from '../utils/abort.js';
+import { GSwapSDKError } from './gswap_sdk_error.js';
+
+/**
+ * What every confirmed transaction resolves with, before any typed fields are added.
+ */
+export interface TransactionWaitResult {
+  /** The transaction ID assigned by the bundler */
+  txId: string;
+  /** The hash of the transaction on chain */
+  transactionHash: string;
+  /** The raw response of the chain operation */
+  Data: Record<string, unknown>;
+}
+
+/**
+ * A stage in the lifecycle of a transaction:
+ * - `submitted`: the signed request was sent to the bundler
+ * - `acknowledged`: the bundler accepted the request and assigned it a transaction ID
+ * - `processed`: the transaction succeeded on chain
+ * - `failed`: the transaction failed, or waiting for it failed
+ * - `timedOut`: the transaction didn't complete within the wait timeout
+ */
+export type TransactionStage = 'submitted' | 'acknowledged' | 'processed' | 'failed' | 'timedOut';
+
+/**
+ * Emitted by a {@link PendingTransaction} when it reaches a stage of its lifecycle.
+ */
+export interface TransactionLifecycleEvent {
+  stage: TransactionStage;
+  /** The transaction ID assigned by the bundler */
+  txId: string;
+  /** When the stage was reached, in milliseconds since the epoch */
+  timestamp: number;
+  /**
+   * Details of the stage: the `method` when submitted, the bundler's `message` when acknowledged,
+   * the `transactionHash` and `Data` when processed, and the `error` when failed or timed out.
+   */
+  details: Record<string, unknown>;
+}
+
+const finalStages: ReadonlySet<TransactionStage> = new Set(['processed', 'failed', 'timedOut']);
+
 /**
  * @hideconstructor
  * Represents a pending blockchain transaction.
  *
- * Usage: Call `wait()` immediately after receiving the PendingTransaction
- * to ensure proper event handling:
+ * Usage: Call `wait()` to get the outcome of the transaction:
  *```typescript
  * const pendingTx = await gSwap.swap(...);
- * const result = await pendingTx.wait(); // Call immediately - if you delay then the event may be missed
+ * const result = await pendingTx.wait();
+ *```
+ *
+ * The transaction also reports each stage of its lifecycle, as {@link TransactionLifecycleEvent}s, both as
+ * events and through async iteration, which ends with the final stage:
+ *```typescript
+ * for await (const { stage, timestamp } of pendingTx) {
+ *   console.log(stage, new Date(timestamp));
+ * }
  *```
+ *
+ * Events:
+ * - `stage` ({@link TransactionLifecycleEvent}): any stage was reached
+ * - `submitted`, `acknowledged`, `processed`, `failed`, `timedOut` ({@link TransactionLifecycleEvent}): that stage was reached
+ *
+ * The final stage is known once the transaction is waited on, which starts when `wait()` is called, when
+ * iteration starts, or when a listener is added for `stage` or a final stage.
  */
-export class PendingTransaction {
+export class PendingTransaction<
+  TResult extends object = Record<never, never>,
+> extends EventEmitter {
+  private readonly stageEvents: TransactionLifecycleEvent[] = [];
+  private outcome?: Promise<TransactionWaitResult> | undefined;
+  private outcomeController?: AbortController | undefined;
+  // Calls to wait() and iterations in progress
+  private activeWaits = 0;
+
+  /**
+   * @param options.stages - Stages reached before the transaction was created, such as `submitted`.
+   * An `acknowledged` stage is recorded if there is none.
+   * @param options.timers - Clock used to timestamp stages. Defaults to the system clock.
+   */
   constructor(
     public readonly transactionId: string,
     public readonly message: string,
     public readonly error: boolean,
-    private readonly waitDelegate: () => Promise<{
-      txId: string;
-      transactionHash: string;
-      Data: Record<string, unknown>;
-    }>,
-  ) {}
+    private readonly waitDelegate: (signal: AbortSignal) => Promise<TransactionWaitResult>,
+    private readonly decodeResult?: ((data: unknown) => TResult) | undefined,
+    private readonly options?: {
+      stages?: TransactionLifecycleEvent[] | undefined;
+      timers?: Timers | undefined;
+    },
+  ) {
+    super();
+
+    this.stageEvents.push(...(options?.stages ?? []));
+    if (!this.stageEvents.some((event) => event.stage === 'acknowledged')) {
+      this.stageEvents.push(this.createStageEvent('acknowledged', { message }));
+    }
+
+    this.on('newListener', (eventName: string | symbol) => {
+      if (eventName === 'stage' || finalStages.has(eventName as TransactionStage)) {
+        this.observeOutcome();
+      }
+    });
+  }
+
+  /**
+   * The stages reached so far, oldest first.
+   */
+  get stages(): readonly TransactionLifecycleEvent[] {
+    return this.stageEvents;
+  }
+
+  /**
+   * The latest stage reached.
+   */
+  get stage(): TransactionStage {
+    return this.stageEvents[this.stageEvents.length - 1]!.stage;
+  }
+
+  /**
+   * Iterates over the stages of the transaction: those reached so far, then each new one as it is
+   * reached, until the final stage (`processed`, `failed` or `timedOut`).
+   */
+  async *[Symbol.asyncIterator](): AsyncGenerator<TransactionLifecycleEvent, void, undefined> {
+    this.observeOutcome();
+    this.activeWaits++;
+
+    try {
+      for (let index = 0; ;) {
+        while (index < this.stageEvents.length) {
+          const event = this.stageEvents[index++]!;
+          yield event;
+
+          if (finalStages.has(event.stage)) {
+            return;
+          }
+        }
+
+        await new Promise<void>((resolve) => this.once('stage', () => resolve()));
+      }
+    } finally {
+      this.activeWaits--;
+    }
+  }
 
   /**
    * Waits for the transaction to be confirmed.
-   * This should be called immediately after receiving the PendingTransaction
-   * to ensure proper event handling. If you delay calling this method and the
-   * transaction confirms before you call this method, an error will be thrown.
+   * It can also be called after the transaction completed: the outcomes of recent transactions are
+   * kept, and older ones are looked up from the bundler.
    *
-   * @returns A promise that resolves when the transaction is confirmed.
+   * @param options - Wait options. Aborting the `signal` rejects this call with the `ABORTED` error. If nothing
+   * else is waiting on the transaction or listening for its stages, the SDK also stops waiting for it
+   * (releasing its timer, or stopping polling); a later `wait()` starts again.
+   * @returns A promise that resolves when the transaction is confirmed. For transactions
+   * submitted by the SDK's swap and liquidity methods, the result also includes the operation's
+   * outcome decoded from `Data`, such as the swapped amounts or the new position's ID.
    */
-  wait() {
-    return this.waitDelegate();
+  async wait(options?: RequestOptions): Promise<TransactionWaitResult & TResult> {
+    const signal = options?.signal;
+    throwIfAborted(signal, { txId: this.transactionId });
+
+    let result: TransactionWaitResult;
+    this.activeWaits++;
+
+    try {
+      result = await abortable(this.waitForOutcome(), signal, { txId: this.transactionId }, () => {
+        if (this.activeWaits === 1 && !this.hasStageListeners()) {
+          this.cancelOutcome(signal!.reason);
+        }
+      });
+    } finally {
+      this.activeWaits--;
+    }
+
+    if (!this.decodeResult) {
+      return result as TransactionWaitResult & TResult;
+    }
+
+    try {
+      return { ...result, ...this.decodeResult(result.Data) };
+    } catch (error) {
+      // The transaction succeeded, so make sure callers can still find it
+      if (error instanceof GSwapSDKError) {
+        throw new GSwapSDKError(error.message, error.code, {
+          ...error.details,
+          txId: result.txId,
+          transactionHash: result.transactionHash,
+        });
+      }
+
+      throw error;
+    }
+  }
+
+  // Waits once, however many callers wait, so that each stage is only reached once
+  private waitForOutcome(): Promise<TransactionWaitResult> {
+    if (this.outcome) {
+      return this.outcome;
+    }
+
+    const controller = new AbortController();
+    this.outcomeController = controller;
+    this.outcome = this.waitDelegate(controller.signal).then(
+      (result) => {
+        this.recordStage('processed', {
+          transactionHash: result.transactionHash,
+          Data: result.Data,
+        });
+
+        return result;
+      },
+      (error: unknown) => {
+        // Waiting was cancelled, which isn't a stage of the transaction
+        if (controller.signal.aborted) {
+          throw error;
+        }
+
+        const timedOut =
+          error instanceof GSwapSDKError && error.code === 'TRANSACTION_WAIT_TIMEOUT';
+        this.recordStage(timedOut ? 'timedOut' : 'failed', { error });
+
+        throw error;
+      },
+    );
+
+    return this.outcome;
+  }
+
+  private cancelOutcome(reason: unknown): void {
+    this.outcomeController?.abort(reason);
+    this.outcome = undefined;
+    this.outcomeController = undefined;
+  }
+
+  private hasStageListeners(): boolean {
+    return (
+      this.listenerCount('stage') > 0 ||
+      [...finalStages].some((stage) => this.listenerCount(stage) > 0)
+    );
+  }
+
+  private observeOutcome(): void {
+    // Failures are reported as stages, and to whoever calls wait()
+    this.waitForOutcome().catch(() => undefined);
+  }
+
+  private recordStage(stage: TransactionStage, details: Record<string, unknown>): void {
+    const event = this.createStageEvent(stage, details);
+    this.stageEvents.push(event);
+
+    this.emit('stage', event);
+    this.emit(stage, event);
+  }
+
+  private createStageEvent(
+    stage: TransactionStage,
+    details: Record<string, unknown>,
+  ): TransactionLifecycleEvent {
+    return {
+      stage,
+      txId: this.transactionId,
+      timestamp: (this.options?.timers ?? systemTimers).now(),
+      details,
+    };
   }
 }
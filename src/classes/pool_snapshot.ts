@@ -0,0 +1,514 @@
+import { createValidDTO, TokenClassKey } from '@gala-chain/api';
+import { GalaChainContext } from '@gala-chain/chaincode';
+import { CompositePoolDto, quoteExactAmount, QuoteExactAmountDto, TickData } from '@gala-chain/dex';
+import BigNumber from 'bignumber.js';
+import { NumericAmount, Price, SqrtPrice } from '../types/amounts.js';
+import { RequestOptions } from '../types/request_options.js';
+import type {
+  GetLiquidityDepthResult,
+  GetQuoteResult,
+  LimitSwapPreview,
+  LiquidityDepthPoint,
+} from '../types/sdk_results.js';
+import type { GalaChainTokenClassKey } from '../types/token.js';
+import { getDexFeeType, isDexConflictError } from '../utils/dex.js';
+import {
+  getPriceImpact,
+  getSqrtPriceLimitForPrice,
+  getSqrtPriceLimitForPriceImpact,
+  PoolMathState,
+  simulateSwap,
+} from '../utils/pool_math.js';
+import { getTokenOrdering, parseTokenClassKey, stringifyTokenClassKey } from '../utils/token.js';
+import { validateNumericAmount, validatePriceImpact } from '../utils/validation.js';
+import { GSwapSDKError } from './gswap_sdk_error.js';
+
+/**
+ * Options for liquidity depth calculations.
+ */
+export interface LiquidityDepthOptions {
+  /** Price moves to report depth for, as positive fractions. Defaults to 0.5%, 1%, 2% and 5%. */
+  priceImpacts?: number[] | undefined;
+  /** The number of points to sample along the depth curve. Defaults to 20. */
+  curvePoints?: number | undefined;
+}
+
+/**
+ * A point-in-time copy of a pool's state that can be quoted against locally, without any network requests.
+ * Obtain one with {@link Quoting.getPoolSnapshot}, and call {@link PoolSnapshot.refresh} when it becomes stale.
+ */
+export class PoolSnapshot {
+  private compositePool: CompositePoolDto;
+  private snapshotCapturedAt: Date;
+
+  constructor(
+    public readonly token0: string,
+    public readonly token1: string,
+    public readonly fee: number,
+    compositePool: CompositePoolDto,
+    private readonly fetchCompositePool: (options?: RequestOptions) => Promise<CompositePoolDto>,
+  ) {
+    this.compositePool = compositePool;
+    this.snapshotCapturedAt = new Date();
+  }
+
+  /**
+   * When the pool state in this snapshot was fetched.
+   */
+  get capturedAt(): Date {
+    return this.snapshotCapturedAt;
+  }
+
+  /**
+   * The number of decimals of token0.
+   */
+  get token0Decimals(): number {
+    return this.compositePool.token0Decimals;
+  }
+
+  /**
+   * The number of decimals of token1.
+   */
+  get token1Decimals(): number {
+    return this.compositePool.token1Decimals;
+  }
+
+  /**
+   * Gets a quote for an exact amount of token being sold, against the pool state in this snapshot.
+   * @param tokenIn - The input token to sell. Must be one of the tokens of the pool.
+   * @param tokenOut - The output token to buy. Must be the other token of the pool.
+   * @param amountIn - The exact amount of input tokens you want to sell.
+   * @returns The expected number of tokens you will receive (buy) if the pool has not changed since the snapshot was captured.
+   */
+  async quoteExactInput(
+    tokenIn: GalaChainTokenClassKey | string,
+    tokenOut: GalaChainTokenClassKey | string,
+    amountIn: NumericAmount,
+  ): Promise<GetQuoteResult> {
+    validateNumericAmount(amountIn, 'amountIn');
+    return this.quote(tokenIn, tokenOut, amountIn, true);
+  }
+
+  /**
+   * Gets a quote for an exact amount of tokens being bought, against the pool state in this snapshot.
+   * @param tokenIn - The input token to sell. Must be one of the tokens of the pool.
+   * @param tokenOut - The output token to buy. Must be the other token of the pool.
+   * @param amountOut - The exact amount of output tokens you want to buy.
+   * @returns The expected number of tokens you will need to sell if the pool has not changed since the snapshot was captured.
+   */
+  async quoteExactOutput(
+    tokenIn: GalaChainTokenClassKey | string,
+    tokenOut: GalaChainTokenClassKey | string,
+    amountOut: NumericAmount,
+  ): Promise<GetQuoteResult> {
+    validateNumericAmount(amountOut, 'amountOut');
+    return this.quote(tokenIn, tokenOut, amountOut, false);
+  }
+
+  /**
+   * Re-fetches the pool state and updates this snapshot in place.
+   * @param options - Request options, such as an `AbortSignal` to cancel the request. An aborted refresh leaves the snapshot unchanged.
+   * @returns This snapshot, for chaining.
+   */
+  async refresh(options?: RequestOptions): Promise<this> {
+    this.compositePool = await this.fetchCompositePool(options);
+    this.snapshotCapturedAt = new Date();
+    return this;
+  }
+
+  /**
+   * Calculates how much of a token can be sold into the pool before its price moves by given amounts,
+   * using the pool's tick data. Useful for drawing depth charts and sizing orders.
+   * @param tokenIn - The input token to sell. Must be one of the tokens of the pool.
+   * @param tokenOut - The output token to buy. Must be the other token of the pool.
+   * @param options - Depth options.
+   * @param options.priceImpacts - Price moves to report depth for, as positive fractions (e.g. 0.01 for 1%). Defaults to 0.5%, 1%, 2% and 5%.
+   * @param options.curvePoints - The number of points to sample along the depth curve, up to the largest price move. Defaults to 20.
+   * @returns The depth at each requested price move, and a sampled curve of amounts and price impacts.
+   * If the pool runs out of liquidity before the price moves far enough, the level reports everything the pool can fill.
+   */
+  getLiquidityDepth(
+    tokenIn: GalaChainTokenClassKey | string,
+    tokenOut: GalaChainTokenClassKey | string,
+    options?: LiquidityDepthOptions,
+  ): GetLiquidityDepthResult {
+    const priceImpacts = options?.priceImpacts ?? [0.005, 0.01, 0.02, 0.05];
+    const curvePoints = options?.curvePoints ?? 20;
+
+    for (const priceImpact of priceImpacts) {
+      validatePriceImpact(priceImpact, 'priceImpacts');
+    }
+
+    if (!Number.isInteger(curvePoints) || curvePoints < 1) {
+      throw new GSwapSDKError(
+        'Invalid curvePoints: must be a positive integer',
+        'VALIDATION_ERROR',
+        {
+          type: 'INVALID_CURVE_POINTS',
+          value: curvePoints,
+        },
+      );
+    }
+
+    const ordering = this.getOrdering(tokenIn, tokenOut);
+    const state = this.getPoolMathState();
+    const inTokenDecimals = ordering.zeroForOne ? this.token0Decimals : this.token1Decimals;
+    const outTokenDecimals = ordering.zeroForOne ? this.token1Decimals : this.token0Decimals;
+
+    const getPoint = (amountIn: BigNumber): LiquidityDepthPoint => {
+      const simulation = simulateSwap(state, ordering.zeroForOne, { amountIn });
+
+      return {
+        inTokenAmount: simulation.amountIn.decimalPlaces(inTokenDecimals, BigNumber.ROUND_DOWN),
+        outTokenAmount: simulation.amountOut.decimalPlaces(outTokenDecimals, BigNumber.ROUND_DOWN),
+        priceImpact: getPriceImpact(
+          simulation.sqrtPriceStart,
+          simulation.sqrtPriceEnd,
+          ordering.zeroForOne,
+        ),
+      };
+    };
+
+    const levels = priceImpacts.map((priceImpact) => {
+      const sqrtPriceLimit = getSqrtPriceLimitForPriceImpact(
+        state.sqrtPrice,
+        BigNumber(priceImpact),
+        ordering.zeroForOne,
+      );
+      const { amountIn } = simulateSwap(state, ordering.zeroForOne, { sqrtPriceLimit });
+
+      // Round down so that selling the reported amount stays within the price move
+      return getPoint(amountIn.decimalPlaces(inTokenDecimals, BigNumber.ROUND_DOWN));
+    });
+
+    const maxAmountIn = BigNumber.max(0, ...levels.map((level) => level.inTokenAmount));
+
+    const curve: LiquidityDepthPoint[] = [];
+    for (let i = 1; i <= curvePoints && maxAmountIn.isPositive() && !maxAmountIn.isZero(); i++) {
+      const amountIn = maxAmountIn
+        .multipliedBy(i)
+        .dividedBy(curvePoints)
+        .decimalPlaces(inTokenDecimals, BigNumber.ROUND_DOWN);
+
+      if (!amountIn.isZero()) {
+        curve.push(getPoint(amountIn));
+      }
+    }
+
+    const currentPrice = state.sqrtPrice.pow(2);
+
+    return {
+      tokenIn: ordering.zeroForOne ? this.token0 : this.token1,
+      tokenOut: ordering.zeroForOne ? this.token1 : this.token0,
+      feeTier: this.fee,
+      currentPrice: (ordering.zeroForOne
+        ? currentPrice
+        : BigNumber(1).dividedBy(currentPrice)) as Price,
+      levels,
+      curve,
+    };
+  }
+
+  /**
+   * Finds the largest amount of a token that can be sold into the pool without moving its price by more than a limit.
+   * The amount is solved locally against the pool's tick data, then quoted against this snapshot.
+   * @param tokenIn - The input token to sell. Must be one of the tokens of the pool.
+   * @param tokenOut - The output token to buy. Must be the other token of the pool.
+   * @param maxImpact - The maximum price impact, as a positive fraction (e.g. 0.01 for 1%).
+   * @returns The quote for the largest input amount that stays within the limit.
+   */
+  async maxInputForPriceImpact(
+    tokenIn: GalaChainTokenClassKey | string,
+    tokenOut: GalaChainTokenClassKey | string,
+    maxImpact: NumericAmount,
+  ): Promise<GetQuoteResult> {
+    validatePriceImpact(maxImpact, 'maxImpact');
+
+    const maxImpactBN = BigNumber(maxImpact);
+    const ordering = this.getOrdering(tokenIn, tokenOut);
+    const state = this.getPoolMathState();
+    const inTokenDecimals = ordering.zeroForOne ? this.token0Decimals : this.token1Decimals;
+
+    const sqrtPriceLimit = getSqrtPriceLimitForPriceImpact(
+      state.sqrtPrice,
+      maxImpactBN,
+      ordering.zeroForOne,
+    );
+
+    let upper = simulateSwap(state, ordering.zeroForOne, { sqrtPriceLimit }).amountIn.decimalPlaces(
+      inTokenDecimals,
+      BigNumber.ROUND_DOWN,
+    );
+
+    const quoteWithinLimit = async (amount: BigNumber) => {
+      try {
+        const quote = await this.quote(tokenIn, tokenOut, amount, true);
+        return quote.priceImpact.abs().isLessThanOrEqualTo(maxImpactBN) ? quote : undefined;
+      } catch (err) {
+        if (isDexConflictError(err)) {
+          // Not enough liquidity in the pool for this amount, or an amount too small to trade
+          return undefined;
+        }
+
+        throw err;
+      }
+    };
+
+    let best = upper.isZero() ? undefined : await quoteWithinLimit(upper);
+
+    if (!best && !upper.isZero()) {
+      // The local solution can differ slightly from the dex library, so search below it
+      let lower = BigNumber(0);
+      for (let i = 0; i < 64; i++) {
+        const middle = lower
+          .plus(upper)
+          .dividedBy(2)
+          .decimalPlaces(inTokenDecimals, BigNumber.ROUND_DOWN);
+
+        if (middle.isLessThanOrEqualTo(lower)) {
+          break;
+        }
+
+        const quote = await quoteWithinLimit(middle);
+        if (quote) {
+          best = quote;
+          lower = middle;
+        } else {
+          upper = middle;
+        }
+      }
+    }
+
+    if (!best) {
+      throw new GSwapSDKError(
+        'Not enough liquidity to trade within the price impact limit',
+        'INSUFFICIENT_LIQUIDITY',
+        {
+          tokenIn: ordering.zeroForOne ? this.token0 : this.token1,
+          tokenOut: ordering.zeroForOne ? this.token1 : this.token0,
+          fee: this.fee,
+          maxImpact: maxImpactBN.toFixed(),
+        },
+      );
+    }
+
+    return best;
+  }
+
+  /**
+   * Previews how much of a limit price swap would fill against the pool state in this snapshot.
+   * The swap is simulated locally against the pool's tick data and stops when the price reaches the limit.
+   * @param tokenIn - The input token to sell. Must be one of the tokens of the pool.
+   * @param tokenOut - The output token to buy. Must be the other token of the pool.
+   * @param amount - The requested swap, as passed to {@link Swaps.swap}.
+   * @param amount.exactIn - For exact input swaps, the amount of input tokens to sell.
+   * @param amount.exactOut - For exact output swaps, the amount of output tokens to buy.
+   * @param amount.limitPrice - The worst price the swap may move the pool to (output tokens per input token).
+   * @returns The amounts that would fill, and whether the whole requested amount fills.
+   */
+  previewLimitSwap(
+    tokenIn: GalaChainTokenClassKey | string,
+    tokenOut: GalaChainTokenClassKey | string,
+    amount:
+      | { exactIn: NumericAmount; limitPrice: NumericAmount }
+      | { exactOut: NumericAmount; limitPrice: NumericAmount },
+  ): LimitSwapPreview {
+    const isExactInput = 'exactIn' in amount;
+    const requestedAmount = BigNumber(isExactInput ? amount.exactIn : amount.exactOut);
+
+    validateNumericAmount(requestedAmount, isExactInput ? 'exactIn' : 'exactOut');
+    validateNumericAmount(amount.limitPrice, 'limitPrice');
+
+    const ordering = this.getOrdering(tokenIn, tokenOut);
+    const state = this.getPoolMathState();
+    const inTokenDecimals = ordering.zeroForOne ? this.token0Decimals : this.token1Decimals;
+    const outTokenDecimals = ordering.zeroForOne ? this.token1Decimals : this.token0Decimals;
+    const sqrtPriceLimit = getSqrtPriceLimitForPrice(
+      BigNumber(amount.limitPrice),
+      ordering.zeroForOne,
+    );
+
+    const simulation = simulateSwap(state, ordering.zeroForOne, {
+      amountIn: isExactInput ? requestedAmount : undefined,
+      amountOut: isExactInput ? undefined : requestedAmount,
+      sqrtPriceLimit,
+    });
+
+    // Nothing fills when the pool price is already past the limit
+    const isFullyFilled =
+      !simulation.amountIn.isZero() &&
+      !simulation.isLiquidityExhausted &&
+      !simulation.sqrtPriceEnd.isEqualTo(sqrtPriceLimit);
+
+    // A full fill is reported as the exact requested amount, without the simulation's rounding error
+    const inTokenAmount =
+      isFullyFilled && isExactInput
+        ? requestedAmount
+        : simulation.amountIn.decimalPlaces(inTokenDecimals, BigNumber.ROUND_UP);
+    const outTokenAmount =
+      isFullyFilled && !isExactInput
+        ? requestedAmount
+        : simulation.amountOut.decimalPlaces(outTokenDecimals, BigNumber.ROUND_DOWN);
+
+    const toPrice = (sqrtPrice: BigNumber) =>
+      (ordering.zeroForOne ? sqrtPrice.pow(2) : BigNumber(1).dividedBy(sqrtPrice.pow(2))) as Price;
+
+    return {
+      tokenIn: ordering.zeroForOne ? this.token0 : this.token1,
+      tokenOut: ordering.zeroForOne ? this.token1 : this.token0,
+      feeTier: this.fee,
+      currentPrice: toPrice(simulation.sqrtPriceStart),
+      limitPrice: BigNumber(amount.limitPrice) as Price,
+      newPrice: toPrice(simulation.sqrtPriceEnd),
+      inTokenAmount,
+      outTokenAmount,
+      isFullyFilled,
+      fillRatio: isFullyFilled
+        ? BigNumber(1)
+        : BigNumber.min(
+            1,
+            (isExactInput ? inTokenAmount : outTokenAmount).dividedBy(requestedAmount),
+          ),
+    };
+  }
+
+  private async quote(
+    tokenIn: GalaChainTokenClassKey | string,
+    tokenOut: GalaChainTokenClassKey | string,
+    amount: NumericAmount,
+    isExactInput: boolean,
+  ): Promise<GetQuoteResult> {
+    const ordering = this.getOrdering(tokenIn, tokenOut);
+
+    // Create DTOs for ordered tokens (token0 < token1 as required by DEX library)
+    // ordering.token0 and token1 are already parsed GalaChainTokenClassKey objects
+    const token0ClassKey = await createValidDTO<TokenClassKey>(
+      TokenClassKey,
+      ordering.token0 as GalaChainTokenClassKey,
+    );
+    const token1ClassKey = await createValidDTO<TokenClassKey>(
+      TokenClassKey,
+      ordering.token1 as GalaChainTokenClassKey,
+    );
+
+    // Format amount based on quote type
+    const formattedAmount = isExactInput
+      ? BigNumber(amount).toFixed()
+      : BigNumber(amount).multipliedBy(-1).toFixed();
+
+    // Use ordered tokens (token0 < token1) as required by DEX library
+    const quoteDto = new QuoteExactAmountDto(
+      token0ClassKey,
+      token1ClassKey,
+      getDexFeeType(this.fee),
+      BigNumber(formattedAmount),
+      ordering.zeroForOne,
+      this.compositePool,
+    );
+
+    // fake context - not used when providing a composite pool
+    const context = {
+      callingUser: 'eth|123...abc',
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      stub: null as any,
+      clientIdentity: {
+        getMSPID: () => 'UsersOrg',
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      } as any,
+    } as GalaChainContext;
+    const response = await quoteExactAmount(context, quoteDto);
+
+    const tokenInAmount = ordering.zeroForOne ? response.amount0 : response.amount1;
+    const tokenOutAmount = ordering.zeroForOne ? response.amount1 : response.amount0;
+
+    let currentPrice = response.currentSqrtPrice.pow(2) as Price;
+    let newPrice = response.newSqrtPrice.pow(2) as Price;
+
+    if (!ordering.zeroForOne) {
+      currentPrice = BigNumber(1).dividedBy(currentPrice) as Price;
+      newPrice = BigNumber(1).dividedBy(newPrice) as Price;
+    }
+
+    const priceImpact = newPrice.minus(currentPrice).dividedBy(currentPrice);
+    const executionPrice = tokenOutAmount.abs().dividedBy(tokenInAmount.abs()) as Price;
+    const inTokenDecimals = ordering.zeroForOne ? this.token0Decimals : this.token1Decimals;
+
+    // The dex library only reports amounts, so the breakdown comes from walking the tick data locally
+    const simulation = simulateSwap(this.getPoolMathState(), ordering.zeroForOne, {
+      amountIn: tokenInAmount.abs(),
+    });
+
+    return {
+      amount0: response.amount0,
+      amount1: response.amount1,
+      currentPoolSqrtPrice: response.currentSqrtPrice as SqrtPrice,
+      newPoolSqrtPrice: response.newSqrtPrice as SqrtPrice,
+      currentPrice,
+      newPrice,
+      inTokenAmount: tokenInAmount.abs(),
+      outTokenAmount: tokenOutAmount.abs(),
+      inTokenDecimals,
+      outTokenDecimals: ordering.zeroForOne ? this.token1Decimals : this.token0Decimals,
+      priceImpact,
+      feeTier: this.fee,
+      feeAmount: simulation.feeAmount.decimalPlaces(inTokenDecimals, BigNumber.ROUND_UP),
+      executionPrice,
+      executionPriceImpact: executionPrice.dividedBy(currentPrice).minus(1),
+      ticksCrossed: simulation.ticksCrossed,
+      liquiditySegments: simulation.segments.map((segment) => ({
+        sqrtPriceStart: segment.sqrtPriceStart as SqrtPrice,
+        sqrtPriceEnd: segment.sqrtPriceEnd as SqrtPrice,
+        liquidity: segment.liquidity,
+        inTokenAmount: segment.amountIn,
+        outTokenAmount: segment.amountOut,
+        feeAmount: segment.feeAmount,
+      })),
+    };
+  }
+
+  private getOrdering(
+    tokenIn: GalaChainTokenClassKey | string,
+    tokenOut: GalaChainTokenClassKey | string,
+  ) {
+    const tokenInClass = parseTokenClassKey(tokenIn);
+    const tokenOutClass = parseTokenClassKey(tokenOut);
+    const ordering = getTokenOrdering(tokenInClass, tokenOutClass, false);
+
+    if (
+      stringifyTokenClassKey(ordering.token0) !== this.token0 ||
+      stringifyTokenClassKey(ordering.token1) !== this.token1
+    ) {
+      throw new GSwapSDKError(
+        'Token pair does not match the pool of this snapshot',
+        'VALIDATION_ERROR',
+        {
+          type: 'TOKEN_PAIR_MISMATCH',
+          tokenIn: stringifyTokenClassKey(tokenInClass),
+          tokenOut: stringifyTokenClassKey(tokenOutClass),
+          token0: this.token0,
+          token1: this.token1,
+        },
+      );
+    }
+
+    return ordering;
+  }
+
+  private getPoolMathState(): PoolMathState {
+    const { pool, tickDataMap, token0Balance, token1Balance } = this.compositePool;
+
+    return {
+      sqrtPrice: BigNumber(pool.sqrtPrice),
+      liquidity: BigNumber(pool.liquidity),
+      fee: this.fee,
+      ticks: Object.values(tickDataMap as Record<string, TickData>)
+        .filter((tickData) => tickData.initialised)
+        .map((tickData) => ({
+          tick: Number(tickData.tick),
+          liquidityNet: BigNumber(tickData.liquidityNet),
+        })),
+      token0Balance: token0Balance.getQuantityTotal(),
+      token1Balance: token1Balance.getQuantityTotal(),
+    };
+  }
+}
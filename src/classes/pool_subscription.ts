@@ -0,0 +1,390 @@
+import BigNumber from 'bignumber.js';
+import { EventEmitter } from 'events';
+import { SqrtPrice } from '../types/amounts.js';
+import { GetPoolDataResponse } from '../types/api_responses.js';
+import { RequestOptions } from '../types/request_options.js';
+import { systemTimers, TimerHandle, Timers } from '../types/timers.js';
+import { debugLog } from '../utils/debug.js';
+import { getPoolHash } from '../utils/dex.js';
+import type { BundlerResponse } from './event_socket_client.js';
+import type { EventSocketConnectionStateChange, Events } from './events.js';
+
+/**
+ * Options for pool subscriptions.
+ */
+export interface PoolSubscriptionOptions extends RequestOptions {
+  /** How often to poll the pool while the event socket isn't connected, in milliseconds. Defaults to 5,000 milliseconds. */
+  pollIntervalMs?: number | undefined;
+  /** Timers used for polling and timestamps. Defaults to the system timers. */
+  timers?: Timers | undefined;
+}
+
+/**
+ * What a pool event is based on: a transaction received through the event socket, or a change
+ * between two polls of the pool's state (which may combine several transactions).
+ */
+export type PoolEventSource = 'socket' | 'poll';
+
+interface PoolEventBase {
+  /** The pool's first token, as a `$`-separated token class key */
+  token0: string;
+  /** The pool's second token, as a `$`-separated token class key */
+  token1: string;
+  fee: number;
+  /** The pool's sqrt price after the event */
+  sqrtPrice: SqrtPrice;
+  /** The pool's sqrt price before the event */
+  previousSqrtPrice: SqrtPrice;
+  /** The pool's active liquidity after the event */
+  liquidity: BigNumber;
+  source: PoolEventSource;
+  /** The transaction that caused the event. Only known for socket events. */
+  transactionId?: string | undefined;
+  /** When the event was observed, in milliseconds since the epoch */
+  timestamp: number;
+}
+
+/**
+ * Emitted as `swap` when the pool's price moves because of a swap.
+ */
+export interface PoolSwapEvent extends PoolEventBase {
+  type: 'swap';
+  /** The change in the pool's token0 balance: positive into the pool, negative out of it. Only known for socket events. */
+  amount0?: BigNumber | undefined;
+  /** The change in the pool's token1 balance: positive into the pool, negative out of it. Only known for socket events. */
+  amount1?: BigNumber | undefined;
+}
+
+/**
+ * Emitted as `mint` when liquidity is added to the pool, and as `burn` when liquidity is removed.
+ */
+export interface PoolLiquidityEvent extends PoolEventBase {
+  type: 'mint' | 'burn';
+  /** The amount of token0 added or removed. Only known for socket events. */
+  amount0?: BigNumber | undefined;
+  /** The amount of token1 added or removed. Only known for socket events. */
+  amount1?: BigNumber | undefined;
+  /** The change in the pool's gross liquidity: positive for `mint`, negative for `burn` */
+  liquidityDelta: BigNumber;
+  /** The position liquidity was added to or removed from. Only known for socket events. */
+  positionId?: string | undefined;
+}
+
+export type PoolEvent = PoolSwapEvent | PoolLiquidityEvent;
+
+type PoolState = Pick<GetPoolDataResponse, 'sqrtPrice' | 'liquidity' | 'grossPoolLiquidity'>;
+
+type PoolOperation =
+  | { type: 'swap'; amount0: BigNumber; amount1: BigNumber }
+  | { type: 'liquidity'; amount0: BigNumber; amount1: BigNumber; positionId?: string | undefined };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toAmount(value: unknown): BigNumber | undefined {
+  const amount =
+    typeof value === 'string' || typeof value === 'number' ? BigNumber(value) : undefined;
+  return amount?.isFinite() ? amount : undefined;
+}
+
+/**
+ * @hideconstructor
+ * A live view of a pool's trades and price, created with {@link Pools.subscribePool}.
+ *
+ * While the event socket of the SDK instance is connected, the pool's transactions are picked out of the
+ * socket messages, so events carry the amounts and the transaction ID. Otherwise the pool is polled, and
+ * changes between two polls are reported without amounts. The pool is fetched after each change, for the new price.
+ *
+ * Events:
+ * - `swap` ({@link PoolSwapEvent}): the price moved
+ * - `mint`, `burn` ({@link PoolLiquidityEvent}): liquidity was added or removed
+ * - `error` (unknown): fetching the pool failed. The subscription carries on. If there's no listener, the error is only logged.
+ */
+export class PoolSubscription extends EventEmitter {
+  private state: PoolState;
+  private readonly poolHash: string;
+  private readonly controller = new AbortController();
+  private readonly timers: Timers;
+  private readonly pollIntervalMs: number;
+  private pollTimer?: TimerHandle | undefined;
+  private pollInProgress = false;
+  // Socket messages are handled one at a time, so that each event sees the state left by the previous one
+  private socketQueue: Promise<void> = Promise.resolve();
+  private active = true;
+
+  private readonly handleTransaction = (txId: string, response: BundlerResponse) =>
+    this.internalHandleTransaction(txId, response);
+  private readonly handleConnectionStateChange = (change: EventSocketConnectionStateChange) =>
+    this.internalHandleConnectionStateChange(change);
+
+  constructor(
+    public readonly token0: string,
+    public readonly token1: string,
+    public readonly fee: number,
+    initialState: GetPoolDataResponse,
+    private readonly fetchPoolData: (options: RequestOptions) => Promise<GetPoolDataResponse>,
+    private readonly events: Events,
+    options?: PoolSubscriptionOptions,
+  ) {
+    super();
+
+    this.state = initialState;
+    this.poolHash = getPoolHash(initialState);
+    this.timers = options?.timers ?? systemTimers;
+    this.pollIntervalMs = options?.pollIntervalMs ?? 5000;
+
+    options?.signal?.addEventListener('abort', () => this.unsubscribe(), { once: true });
+
+    this.events.on('transaction', this.handleTransaction);
+    this.events.on('connectionStateChange', this.handleConnectionStateChange);
+
+    if (this.events.connectionState !== 'connected') {
+      this.schedulePoll();
+    }
+  }
+
+  /**
+   * The pool's current sqrt price, as of the latest event or poll.
+   */
+  get sqrtPrice(): SqrtPrice {
+    return this.state.sqrtPrice;
+  }
+
+  /**
+   * Where events currently come from: the event socket while it is connected, polling otherwise.
+   */
+  get source(): PoolEventSource {
+    return this.events.connectionState === 'connected' ? 'socket' : 'poll';
+  }
+
+  /**
+   * Stops the subscription. No more events are emitted.
+   */
+  unsubscribe(): void {
+    if (!this.active) {
+      return;
+    }
+
+    this.active = false;
+    this.events.off('transaction', this.handleTransaction);
+    this.events.off('connectionStateChange', this.handleConnectionStateChange);
+    this.stopPolling();
+    this.controller.abort();
+  }
+
+  private internalHandleTransaction(txId: string, response: BundlerResponse): void {
+    if (response.status !== 'PROCESSED') {
+      return;
+    }
+
+    const operations = this.getPoolOperations(response.data.Data);
+    if (operations.length === 0) {
+      return;
+    }
+
+    this.socketQueue = this.socketQueue.then(() => this.applyOperations(txId, operations));
+  }
+
+  private internalHandleConnectionStateChange(change: EventSocketConnectionStateChange): void {
+    if (!this.active) {
+      return;
+    }
+
+    if (change.state === 'connected') {
+      this.stopPolling();
+      // Catch up on anything that happened while events could not be received
+      this.socketQueue = this.socketQueue.then(() => this.poll());
+    } else if (change.previousState === 'connected') {
+      this.schedulePoll();
+    }
+  }
+
+  // A BatchSubmit transaction has one result per operation, which may belong to different pools
+  private getPoolOperations(data: unknown): PoolOperation[] {
+    const results = Array.isArray(data)
+      ? data.map((response: unknown) => (isRecord(response) ? response.Data : undefined))
+      : [data];
+
+    return results.flatMap((result): PoolOperation[] => {
+      if (!isRecord(result) || !this.isForThisPool(result)) {
+        return [];
+      }
+
+      if (Array.isArray(result.amounts)) {
+        const amount0 = toAmount(result.amounts[0]);
+        const amount1 = toAmount(result.amounts[1]);
+
+        return amount0 && amount1
+          ? [
+              {
+                type: 'liquidity',
+                amount0,
+                amount1,
+                positionId: typeof result.positionId === 'string' ? result.positionId : undefined,
+              },
+            ]
+          : [];
+      }
+
+      const amount0 = toAmount(result.amount0);
+      const amount1 = toAmount(result.amount1);
+
+      return amount0 && amount1 ? [{ type: 'swap', amount0, amount1 }] : [];
+    });
+  }
+
+  // Swap results carry the pool's hash and its `service|pool_<hash>` alias, liquidity results only the hash
+  private isForThisPool(result: Record<string, unknown>): boolean {
+    return (
+      result.poolHash === this.poolHash ||
+      (typeof result.poolAlias === 'string' && result.poolAlias.endsWith(`|pool_${this.poolHash}`))
+    );
+  }
+
+  private async applyOperations(txId: string, operations: PoolOperation[]): Promise<void> {
+    const previousState = this.state;
+    const newState = await this.refreshState();
+    if (!newState) {
+      return;
+    }
+
+    const timestamp = this.timers.now();
+
+    for (const operation of operations) {
+      if (operation.type === 'swap') {
+        this.emitPoolEvent({
+          ...this.createEventBase(previousState, newState, 'socket', timestamp),
+          type: 'swap',
+          transactionId: txId,
+          amount0: operation.amount0,
+          amount1: operation.amount1,
+        });
+
+        continue;
+      }
+
+      const liquidityDelta = newState.grossPoolLiquidity.minus(previousState.grossPoolLiquidity);
+
+      // Collecting fees has the same shape of result, but doesn't change the pool's liquidity
+      if (liquidityDelta.isZero()) {
+        continue;
+      }
+
+      this.emitPoolEvent({
+        ...this.createEventBase(previousState, newState, 'socket', timestamp),
+        type: liquidityDelta.isPositive() ? 'mint' : 'burn',
+        transactionId: txId,
+        amount0: operation.amount0.abs(),
+        amount1: operation.amount1.abs(),
+        liquidityDelta,
+        positionId: operation.positionId,
+      });
+    }
+  }
+
+  private async poll(): Promise<void> {
+    if (this.pollInProgress) {
+      return;
+    }
+
+    this.pollInProgress = true;
+
+    try {
+      const previousState = this.state;
+      const newState = await this.refreshState();
+      if (!newState) {
+        return;
+      }
+
+      const timestamp = this.timers.now();
+      const liquidityDelta = newState.grossPoolLiquidity.minus(previousState.grossPoolLiquidity);
+
+      if (!liquidityDelta.isZero()) {
+        this.emitPoolEvent({
+          ...this.createEventBase(previousState, newState, 'poll', timestamp),
+          type: liquidityDelta.isPositive() ? 'mint' : 'burn',
+          liquidityDelta,
+        });
+      }
+
+      if (!newState.sqrtPrice.isEqualTo(previousState.sqrtPrice)) {
+        this.emitPoolEvent({
+          ...this.createEventBase(previousState, newState, 'poll', timestamp),
+          type: 'swap',
+        });
+      }
+    } finally {
+      this.pollInProgress = false;
+    }
+  }
+
+  private schedulePoll(): void {
+    if (!this.active || this.pollTimer !== undefined) {
+      return;
+    }
+
+    this.pollTimer = this.timers.setTimeout(() => {
+      this.pollTimer = undefined;
+
+      void this.poll().finally(() => {
+        if (this.events.connectionState !== 'connected') {
+          this.schedulePoll();
+        }
+      });
+    }, this.pollIntervalMs);
+  }
+
+  private stopPolling(): void {
+    if (this.pollTimer !== undefined) {
+      this.timers.clearTimeout(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+  }
+
+  private async refreshState(): Promise<PoolState | undefined> {
+    try {
+      const poolData = await this.fetchPoolData({ signal: this.controller.signal });
+      if (!this.active) {
+        return undefined;
+      }
+
+      this.state = poolData;
+      return poolData;
+    } catch (error) {
+      if (!this.active) {
+        return undefined;
+      }
+
+      if (this.listenerCount('error') > 0) {
+        this.emit('error', error);
+      } else {
+        debugLog(`Failed to fetch pool ${this.poolHash}:`, error);
+      }
+
+      return undefined;
+    }
+  }
+
+  private createEventBase(
+    previousState: PoolState,
+    newState: PoolState,
+    source: PoolEventSource,
+    timestamp: number,
+  ) {
+    return {
+      token0: this.token0,
+      token1: this.token1,
+      fee: this.fee,
+      sqrtPrice: newState.sqrtPrice,
+      previousSqrtPrice: previousState.sqrtPrice,
+      liquidity: newState.liquidity,
+      source,
+      timestamp,
+    };
+  }
+
+  private emitPoolEvent(event: PoolEvent): void {
+    this.emit(event.type, event);
+  }
+}
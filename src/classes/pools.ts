@@ -1,25 +1,117 @@
 import BigNumber from 'bignumber.js';
 import { Price, PriceIn, SqrtPrice, SqrtPriceIn } from '../types/amounts.js';
 import { GetPoolDataRawResponse, GetPoolDataResponse } from '../types/api_responses.js';
+import { DEFAULT_FEE_TIERS, FeeTierConfig } from '../types/fees.js';
+import { RequestOptions } from '../types/request_options.js';
 import { GalaChainTokenClassKey } from '../types/token.js';
-import { getTokenOrdering, parseTokenClassKey } from '../utils/token.js';
+import { abortable } from '../utils/abort.js';
+import { getTokenOrdering, parseTokenClassKey, stringifyTokenClassKey } from '../utils/token.js';
 import { validateFee, validateNumericAmount, validateTickSpacing } from '../utils/validation.js';
+import { Events } from './events.js';
+import { GSwapSDKError } from './gswap_sdk_error.js';
 import { HttpClient } from './http_client.js';
+import { PoolSubscription, PoolSubscriptionOptions } from './pool_subscription.js';
 
 export class Pools {
+  private readonly feeTiers: FeeTierConfig[];
+  private readonly feeTierCacheTtlMs: number;
+  private readonly events: Events;
+  private readonly availableFeeTiersCache = new Map<
+    string,
+    { expiresAt: number; feeTiers: Promise<FeeTierConfig[]> }
+  >();
+
   constructor(
     private readonly gatewayBaseUrl: string,
     private readonly dexContractBasePath: string,
     private readonly httpClient: HttpClient,
-  ) {}
+    options?: {
+      feeTiers?: FeeTierConfig[] | undefined; // Fee tiers to check for pools. Defaults to DEFAULT_FEE_TIERS.
+      feeTierCacheTtlMs?: number | undefined; // How long discovered fee tiers are cached. Defaults to 5 minutes.
+      events?: Events | undefined; // The event hub pool subscriptions listen to. Defaults to Events.instance.
+    },
+  ) {
+    this.feeTiers = options?.feeTiers ?? DEFAULT_FEE_TIERS;
+    this.feeTierCacheTtlMs = options?.feeTierCacheTtlMs ?? 300_000;
+    this.events = options?.events ?? Events.instance;
+
+    this.feeTiers.forEach((feeTier) => {
+      validateFee(feeTier.fee);
+      validateTickSpacing(feeTier.tickSpacing);
+    });
+  }
+
+  /**
+   * Gets the configured fee tiers.
+   */
+  getFeeTiers(): FeeTierConfig[] {
+    return [...this.feeTiers];
+  }
+
+  /**
+   * Gets the tick spacing of pools with a fee tier, from the configured fee tiers.
+   */
+  getTickSpacing(fee: number): number {
+    const feeTier = this.feeTiers.find((tier) => tier.fee === fee);
+
+    if (!feeTier) {
+      throw new GSwapSDKError(`Unknown fee tier: ${fee}`, 'VALIDATION_ERROR', {
+        type: 'UNKNOWN_FEE_TIER',
+        value: fee,
+        knownFeeTiers: this.feeTiers.map((tier) => tier.fee),
+      });
+    }
+
+    return feeTier.tickSpacing;
+  }
+
+  /**
+   * Discovers which of the configured fee tiers have a pool for a token pair.
+   * Results are cached per pair, so repeated calls don't make further requests until the cache expires.
+   * @param tokenA - One of the tokens of the pair.
+   * @param tokenB - The other token of the pair.
+   * @param options - Request options, such as an `AbortSignal`. Aborting only cancels this call, since
+   * the discovery is shared with other callers.
+   * @returns The fee tiers that have a pool, with the tick spacing reported by each pool.
+   */
+  async getAvailableFeeTiers(
+    tokenA: GalaChainTokenClassKey | string,
+    tokenB: GalaChainTokenClassKey | string,
+    options?: RequestOptions,
+  ): Promise<FeeTierConfig[]> {
+    const ordering = getTokenOrdering(
+      parseTokenClassKey(tokenA),
+      parseTokenClassKey(tokenB),
+      false,
+    );
+    const cacheKey = `${stringifyTokenClassKey(ordering.token0)}/${stringifyTokenClassKey(ordering.token1)}`;
+
+    const cached = this.availableFeeTiersCache.get(cacheKey);
+    if (cached && cached.expiresAt > Date.now()) {
+      return abortable(cached.feeTiers, options?.signal);
+    }
+
+    const feeTiers = this.discoverFeeTiers(ordering.token0, ordering.token1);
+    this.availableFeeTiersCache.set(cacheKey, {
+      expiresAt: Date.now() + this.feeTierCacheTtlMs,
+      feeTiers,
+    });
+
+    // Don't cache failures
+    feeTiers.catch(() => this.availableFeeTiersCache.delete(cacheKey));
+
+    return abortable(feeTiers, options?.signal);
+  }
 
   /**
    * Gets pool data for a specific token pair and fee tier.
+   * @param options - Request options, such as an `AbortSignal` to cancel the request.
    */
   async getPoolData(
     token0: GalaChainTokenClassKey | string,
     token1: GalaChainTokenClassKey | string,
     fee: number,
+    options?: RequestOptions,
   ): Promise<GetPoolDataResponse> {
     validateFee(fee);
 
@@ -30,11 +122,17 @@ export class Pools {
     const responseBody = await this.httpClient.sendPostRequest<{
       Status: number;
       Data: GetPoolDataRawResponse;
-    }>(this.gatewayBaseUrl, this.dexContractBasePath, '/GetPoolData', {
-      token0: ordering.token0,
-      token1: ordering.token1,
-      fee: fee,
-    });
+    }>(
+      this.gatewayBaseUrl,
+      this.dexContractBasePath,
+      '/GetPoolData',
+      {
+        token0: ordering.token0,
+        token1: ordering.token1,
+        fee: fee,
+      },
+      { ...options, idempotent: true },
+    );
 
     const rawData = responseBody.Data;
 
@@ -58,6 +156,66 @@ export class Pools {
     };
   }
 
+  /**
+   * Subscribes to a pool's swaps, liquidity changes and price.
+   * Events come from the event socket while it is connected (with amounts and transaction IDs), and from
+   * polling the pool otherwise.
+   * @param token0 - One of the tokens of the pool.
+   * @param token1 - The other token of the pool.
+   * @param fee - The pool fee tier.
+   * @param options - Subscription options. Aborting the `signal` ends the subscription.
+   * @param options.pollIntervalMs - How often to poll the pool while the event socket isn't connected. Defaults to 5,000 milliseconds.
+   * @returns The subscription, once the pool's current state has been fetched. Call `unsubscribe()` to stop it.
+   * @example
+   * ```typescript
+   * await gSwap.events.connectEventSocket();
+   *
+   * const subscription = await gSwap.pools.subscribePool(
+   *   'GALA|Unit|none|none',
+   *   'GUSDC|Unit|none|none',
+   *   FEE_TIER.PERCENT_01_00,
+   * );
+   *
+   * subscription.on('swap', (swap) => {
+   *   console.log(`New sqrt price ${swap.sqrtPrice}, in transaction ${swap.transactionId}`);
+   * });
+   * ```
+   */
+  async subscribePool(
+    token0: GalaChainTokenClassKey | string,
+    token1: GalaChainTokenClassKey | string,
+    fee: number,
+    options?: PoolSubscriptionOptions,
+  ): Promise<PoolSubscription> {
+    validateFee(fee);
+
+    const pollIntervalMs = options?.pollIntervalMs;
+    if (pollIntervalMs !== undefined && !(pollIntervalMs > 0)) {
+      throw new GSwapSDKError('Invalid pollIntervalMs: must be positive', 'VALIDATION_ERROR', {
+        type: 'INVALID_POLL_INTERVAL',
+        value: pollIntervalMs,
+      });
+    }
+
+    const ordering = getTokenOrdering(
+      parseTokenClassKey(token0),
+      parseTokenClassKey(token1),
+      false,
+    );
+    const fetchPoolData = (requestOptions?: RequestOptions) =>
+      this.getPoolData(ordering.token0, ordering.token1, fee, requestOptions);
+
+    return new PoolSubscription(
+      stringifyTokenClassKey(ordering.token0, '$'),
+      stringifyTokenClassKey(ordering.token1, '$'),
+      fee,
+      await fetchPoolData(options),
+      fetchPoolData,
+      this.events,
+      options,
+    );
+  }
+
   /**
    * Calculates the nearest valid tick value for a given price.
    */
@@ -112,4 +270,27 @@ export class Pools {
       return BigNumber(1).div(poolPrice);
     }
   }
+
+  private async discoverFeeTiers(
+    token0: GalaChainTokenClassKey | string,
+    token1: GalaChainTokenClassKey | string,
+  ): Promise<FeeTierConfig[]> {
+    const results = await Promise.all(
+      this.feeTiers.map(async (feeTier) => {
+        try {
+          const poolData = await this.getPoolData(token0, token1, feeTier.fee);
+          return { fee: feeTier.fee, tickSpacing: poolData.tickSpacing };
+        } catch (err) {
+          if (err instanceof GSwapSDKError && err.code === 'OBJECT_NOT_FOUND') {
+            // No pool exists for this fee tier
+            return undefined;
+          }
+
+          throw err;
+        }
+      }),
+    );
+
+    return results.filter((feeTier): feeTier is FeeTierConfig => feeTier !== undefined);
+  }
 }
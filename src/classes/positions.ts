@@ -1,9 +1,15 @@
 import BigNumber from 'bignumber.js';
 import { NumericAmount, PriceIn } from '../types/amounts.js';
 import { FEE_TIER } from '../types/fees.js';
-import type { GetPositionResult, GetUserPositionsResult } from '../types/sdk_results.js';
+import { RequestOptions } from '../types/request_options.js';
+import type {
+  GetPositionResult,
+  GetUserPositionsResult,
+  LiquidityTransactionResult,
+} from '../types/sdk_results.js';
 import type { GalaChainTokenClassKey } from '../types/token.js';
 import { getTokenOrdering, parseTokenClassKey, stringifyTokenClassKey } from '../utils/token.js';
+import { decodeLiquidityResult } from '../utils/transaction_results.js';
 import {
   validateFee,
   validateNumericAmount,
@@ -13,7 +19,7 @@ import {
   validateTokenDecimals,
   validateWalletAddress,
 } from '../utils/validation.js';
-import { Bundler } from './bundler.js';
+import { Bundler, BundlerRequestOptions, BundlerRequestResult } from './bundler.js';
 import { HttpClient } from './http_client.js';
 import { Pools } from './pools.js';
 
@@ -45,6 +51,7 @@ export class Positions {
    * @param ownerAddress - The wallet address to get positions for.
    * @param limit - Maximum number of positions to return.
    * @param bookmark - Pagination bookmark for retrieving additional results. If you call this function and it returns a bookmark that is not an empty string, you can pass that bookmark as this parameter in a subsequent call to fetch the next page.
+   * @param options - Request options, such as an `AbortSignal` to cancel the request.
    * @returns User positions and pagination bookmark
    * @example
    * ```typescript
@@ -52,12 +59,21 @@ export class Positions {
    * console.log(positions);
    * ```
    */
-  async getUserPositions(ownerAddress: string, limit?: number, bookmark?: string) {
-    const results = await this.sendUserPositionsRequest('/GetUserPositions', {
-      user: ownerAddress,
-      limit,
-      bookmark,
-    });
+  async getUserPositions(
+    ownerAddress: string,
+    limit?: number,
+    bookmark?: string,
+    options?: RequestOptions,
+  ) {
+    const results = await this.sendUserPositionsRequest(
+      '/GetUserPositions',
+      {
+        user: ownerAddress,
+        limit,
+        bookmark,
+      },
+      options,
+    );
 
     return {
       bookmark: results.nextBookMark,
@@ -74,6 +90,7 @@ export class Positions {
    * @param position.fee - The pool fee tier.
    * @param position.tickLower - The lower tick of the position range.
    * @param position.tickUpper - The upper tick of the position range.
+   * @param options - Request options, such as an `AbortSignal` to cancel the request.
    * @returns Detailed position information.
    * @example
    * ```typescript
@@ -96,15 +113,20 @@ export class Positions {
       tickLower: number;
       tickUpper: number;
     },
+    options?: RequestOptions,
   ) {
-    const result = await this.sendPositionRequest('/GetPositions', {
-      owner: ownerAddress,
-      token0: parseTokenClassKey(position.token0ClassKey),
-      token1: parseTokenClassKey(position.token1ClassKey),
-      fee: position.fee,
-      tickLower: position.tickLower,
-      tickUpper: position.tickUpper,
-    });
+    const result = await this.sendPositionRequest(
+      '/GetPositions',
+      {
+        owner: ownerAddress,
+        token0: parseTokenClassKey(position.token0ClassKey),
+        token1: parseTokenClassKey(position.token1ClassKey),
+        fee: position.fee,
+        tickLower: position.tickLower,
+        tickUpper: position.tickUpper,
+      },
+      options,
+    );
 
     return result;
   }
@@ -120,6 +142,7 @@ export class Positions {
    * @param args.tickLower - The lower tick of the position range.
    * @param args.tickUpper - The upper tick of the position range.
    * @param args.amount - The amount of liquidity to remove.
+   * @param options - Request options, such as an `AbortSignal` to cancel the request.
    * @returns Estimated token amounts that would be received.
    * @example
    * ```typescript
@@ -136,16 +159,19 @@ export class Positions {
    * console.log('Estimated tokens:', estimation);
    * ```
    */
-  async estimateRemoveLiquidity(args: {
-    ownerAddress: string;
-    positionId: string;
-    token0: GalaChainTokenClassKey | string;
-    token1: GalaChainTokenClassKey | string;
-    fee: number;
-    tickLower: number;
-    tickUpper: number;
-    amount: NumericAmount;
-  }) {
+  async estimateRemoveLiquidity(
+    args: {
+      ownerAddress: string;
+      positionId: string;
+      token0: GalaChainTokenClassKey | string;
+      token1: GalaChainTokenClassKey | string;
+      fee: number;
+      tickLower: number;
+      tickUpper: number;
+      amount: NumericAmount;
+    },
+    options?: RequestOptions,
+  ) {
     validateWalletAddress(args.ownerAddress);
     validateFee(args.fee);
     validateTickRange(args.tickLower, args.tickUpper);
@@ -162,16 +188,22 @@ export class Positions {
         amount0: string;
         amount1: string;
       };
-    }>(this.gatewayBaseUrl, this.dexContractBasePath, '/GetRemoveLiquidityEstimation', {
-      tickLower: args.tickLower,
-      tickUpper: args.tickUpper,
-      amount: BigNumber(args.amount).toFixed(),
-      token0: ordering.token0,
-      token1: ordering.token1,
-      fee: args.fee,
-      owner: args.ownerAddress,
-      positionId: args.positionId,
-    });
+    }>(
+      this.gatewayBaseUrl,
+      this.dexContractBasePath,
+      '/GetRemoveLiquidityEstimation',
+      {
+        tickLower: args.tickLower,
+        tickUpper: args.tickUpper,
+        amount: BigNumber(args.amount).toFixed(),
+        token0: ordering.token0,
+        token1: ordering.token1,
+        fee: args.fee,
+        owner: args.ownerAddress,
+        positionId: args.positionId,
+      },
+      { ...options, idempotent: true },
+    );
 
     return {
       amount0: BigNumber(responseBody.Data.amount0),
@@ -183,6 +215,7 @@ export class Positions {
    * Gets detailed information about a liquidity position by its ID.
    * @param ownerAddress - The wallet address that owns the position.
    * @param positionId - The unique identifier of the position.
+   * @param options - Request options, such as an `AbortSignal` to cancel the requests.
    * @returns Detailed position information, or undefined if not found.
    * @example
    * ```typescript
@@ -194,14 +227,14 @@ export class Positions {
    * }
    * ```
    */
-  async getPositionById(ownerAddress: string, positionId: string) {
-    const userPositions = await this.getUserPositions(ownerAddress);
+  async getPositionById(ownerAddress: string, positionId: string, options?: RequestOptions) {
+    const userPositions = await this.getUserPositions(ownerAddress, undefined, undefined, options);
     const position = userPositions.positions.find((pos) => pos.positionId === positionId);
     if (!position) {
       return undefined;
     }
 
-    return this.getPosition(ownerAddress, position);
+    return this.getPosition(ownerAddress, position, options);
   }
 
   /**
@@ -218,10 +251,11 @@ export class Positions {
    * @param args.amount1Desired - Desired (also maximum) amount of token1 to add.
    * @param args.amount0Min - Minimum amount of token0 to add (slippage protection).
    * @param args.amount1Min - Minimum amount of token1 to add (slippage protection).
-   * @returns Pending transaction.
+   * @param options - Request options. With `dryRun`, the signed request is returned instead of being submitted.
+   * @returns Pending transaction, whose `wait()` resolves with the position's ID and the amounts added, or the signed request in dry-run mode.
    * @example
    * ```typescript
-   * const result = await gSwap.positions.addLiquidityByTicks({
+   * const pendingTx = await gSwap.positions.addLiquidityByTicks({
    *   walletAddress: 'eth|123...abc',
    *   positionId: '',
    *   token0: 'GALA|Unit|none|none',
@@ -235,22 +269,26 @@ export class Positions {
    *   amount0Min: '95',
    *   amount1Min: '47.5'
    * });
-   * console.log('Liquidity added:', result);
+   * const { positionId } = await pendingTx.wait();
+   * console.log('Liquidity added to position', positionId);
    * ```
    */
-  async addLiquidityByTicks(args: {
-    walletAddress?: string;
-    positionId: string;
-    token0: GalaChainTokenClassKey | string;
-    token1: GalaChainTokenClassKey | string;
-    fee: FEE_TIER;
-    tickLower: number;
-    tickUpper: number;
-    amount0Desired: NumericAmount;
-    amount1Desired: NumericAmount;
-    amount0Min: NumericAmount;
-    amount1Min: NumericAmount;
-  }) {
+  async addLiquidityByTicks<TOptions extends BundlerRequestOptions | undefined = undefined>(
+    args: {
+      walletAddress?: string;
+      positionId: string;
+      token0: GalaChainTokenClassKey | string;
+      token1: GalaChainTokenClassKey | string;
+      fee: FEE_TIER;
+      tickLower: number;
+      tickUpper: number;
+      amount0Desired: NumericAmount;
+      amount1Desired: NumericAmount;
+      amount0Min: NumericAmount;
+      amount1Min: NumericAmount;
+    },
+    options?: TOptions,
+  ): Promise<BundlerRequestResult<TOptions, LiquidityTransactionResult>> {
     const walletAddress = args.walletAddress ?? this.options?.walletAddress;
 
     validateWalletAddress(walletAddress);
@@ -306,7 +344,13 @@ export class Positions {
       tokenBalance1Pool,
     ];
 
-    return this.bundlerService.sendBundlerRequest('AddLiquidity', toSign, stringsInstructions);
+    return this.bundlerService.sendBundlerRequest(
+      'AddLiquidity',
+      toSign,
+      stringsInstructions,
+      options,
+      decodeLiquidityResult,
+    );
   }
 
   /**
@@ -317,14 +361,15 @@ export class Positions {
    * @param args.token0 - The first token in the pair.
    * @param args.token1 - The second token in the pair.
    * @param args.fee - The pool fee tier.
-   * @param args.tickSpacing - The tick spacing for the pool.
+   * @param args.tickSpacing - The tick spacing for the pool. Defaults to the configured tick spacing of the fee tier.
    * @param args.minPrice - The minimum price for the position range.
    * @param args.maxPrice - The maximum price for the position range.
    * @param args.amount0Desired - Desired (also maximum) amount of token0 to add.
    * @param args.amount1Desired - Desired (also maximum) amount of token1 to add.
    * @param args.amount0Min - Minimum amount of token0 to add (slippage protection).
    * @param args.amount1Min - Minimum amount of token1 to add (slippage protection).
-   * @returns Pending transaction.
+   * @param options - Request options. With `dryRun`, the signed request is returned instead of being submitted.
+   * @returns Pending transaction, whose `wait()` resolves with the position's ID and the amounts added, or the signed request in dry-run mode.
    * @example
    * ```typescript
    * const result = await gSwap.positions.addLiquidityByPrice({
@@ -344,25 +389,30 @@ export class Positions {
    * console.log('Liquidity added with price range:', result);
    * ```
    */
-  async addLiquidityByPrice(args: {
-    walletAddress?: string;
-    positionId: string;
-    token0: GalaChainTokenClassKey | string;
-    token1: GalaChainTokenClassKey | string;
-    fee: number;
-    tickSpacing: number;
-    minPrice: PriceIn;
-    maxPrice: PriceIn;
-    amount0Desired: NumericAmount;
-    amount1Desired: NumericAmount;
-    amount0Min: NumericAmount;
-    amount1Min: NumericAmount;
-  }) {
+  async addLiquidityByPrice<TOptions extends BundlerRequestOptions | undefined = undefined>(
+    args: {
+      walletAddress?: string;
+      positionId: string;
+      token0: GalaChainTokenClassKey | string;
+      token1: GalaChainTokenClassKey | string;
+      fee: number;
+      tickSpacing?: number | undefined;
+      minPrice: PriceIn;
+      maxPrice: PriceIn;
+      amount0Desired: NumericAmount;
+      amount1Desired: NumericAmount;
+      amount0Min: NumericAmount;
+      amount1Min: NumericAmount;
+    },
+    options?: TOptions,
+  ): Promise<BundlerRequestResult<TOptions, LiquidityTransactionResult>> {
     const walletAddress = args.walletAddress ?? this.options?.walletAddress;
 
     validateWalletAddress(walletAddress);
     validateFee(args.fee);
-    validateTickSpacing(args.tickSpacing);
+
+    const tickSpacing = args.tickSpacing ?? this.poolService.getTickSpacing(args.fee);
+    validateTickSpacing(tickSpacing);
     validateNumericAmount(args.minPrice, 'minPrice', true);
     validateNumericAmount(args.maxPrice, 'maxPrice');
     validateNumericAmount(args.amount0Desired, 'amount0Desired', true);
@@ -385,8 +435,8 @@ export class Positions {
       [args.amount1Desired, args.amount1Min],
     );
 
-    const minPriceTicks = this.poolService.calculateTicksForPrice(args.minPrice, args.tickSpacing);
-    const maxPriceTicks = this.poolService.calculateTicksForPrice(args.maxPrice, args.tickSpacing);
+    const minPriceTicks = this.poolService.calculateTicksForPrice(args.minPrice, tickSpacing);
+    const maxPriceTicks = this.poolService.calculateTicksForPrice(args.maxPrice, tickSpacing);
 
     const tickLower = ordering.zeroForOne ? minPriceTicks : maxPriceTicks * -1;
     const tickUpper = ordering.zeroForOne ? maxPriceTicks : minPriceTicks * -1;
@@ -424,7 +474,13 @@ export class Positions {
       tokenBalance1Pool,
     ];
 
-    return this.bundlerService.sendBundlerRequest('AddLiquidity', toSign, stringsInstructions);
+    return this.bundlerService.sendBundlerRequest(
+      'AddLiquidity',
+      toSign,
+      stringsInstructions,
+      options,
+      decodeLiquidityResult,
+    );
   }
 
   /**
@@ -440,7 +496,8 @@ export class Positions {
    * @param args.amount - The amount of liquidity to remove.
    * @param args.amount0Min - Minimum amount of token0 to receive (slippage protection, optional).
    * @param args.amount1Min - Minimum amount of token1 to receive (slippage protection, optional).
-   * @returns Pending transaction.
+   * @param options - Request options. With `dryRun`, the signed request is returned instead of being submitted.
+   * @returns Pending transaction, whose `wait()` resolves with the amounts removed, or the signed request in dry-run mode.
    * @example
    * ```typescript
    * // Remove 50% of liquidity from a position
@@ -459,18 +516,21 @@ export class Positions {
    * console.log('Liquidity removed:', result);
    * ```
    */
-  async removeLiquidity(args: {
-    walletAddress?: string;
-    positionId: string;
-    token0: GalaChainTokenClassKey | string;
-    token1: GalaChainTokenClassKey | string;
-    fee: number;
-    tickLower: number;
-    tickUpper: number;
-    amount: NumericAmount;
-    amount0Min?: NumericAmount;
-    amount1Min?: NumericAmount;
-  }) {
+  async removeLiquidity<TOptions extends BundlerRequestOptions | undefined = undefined>(
+    args: {
+      walletAddress?: string;
+      positionId: string;
+      token0: GalaChainTokenClassKey | string;
+      token1: GalaChainTokenClassKey | string;
+      fee: number;
+      tickLower: number;
+      tickUpper: number;
+      amount: NumericAmount;
+      amount0Min?: NumericAmount;
+      amount1Min?: NumericAmount;
+    },
+    options?: TOptions,
+  ): Promise<BundlerRequestResult<TOptions, LiquidityTransactionResult>> {
     const walletAddress = args.walletAddress ?? this.options?.walletAddress;
 
     validateWalletAddress(walletAddress);
@@ -528,7 +588,13 @@ export class Positions {
       tokenBalance1Pool,
     ];
 
-    return this.bundlerService.sendBundlerRequest('RemoveLiquidity', toSign, stringsInstructions);
+    return this.bundlerService.sendBundlerRequest(
+      'RemoveLiquidity',
+      toSign,
+      stringsInstructions,
+      options,
+      decodeLiquidityResult,
+    );
   }
 
   /**
@@ -543,7 +609,8 @@ export class Positions {
    * @param args.tickUpper - The upper tick of the position range.
    * @param args.amount0Requested - Desired amount of token0 fees to collect.
    * @param args.amount1Requested - Desired amount of token1 fees to collect.
-   * @returns Pending transaction.
+   * @param options - Request options. With `dryRun`, the signed request is returned instead of being submitted.
+   * @returns Pending transaction, whose `wait()` resolves with the fees collected, or the signed request in dry-run mode.
    * @example
    * ```typescript
    * // Collect all accumulated fees from a position
@@ -561,17 +628,20 @@ export class Positions {
    * console.log('Fees collected:', result);
    * ```
    */
-  async collectPositionFees(args: {
-    walletAddress?: string;
-    positionId: string;
-    token0: GalaChainTokenClassKey | string;
-    token1: GalaChainTokenClassKey | string;
-    fee: number;
-    tickLower: number;
-    tickUpper: number;
-    amount0Requested: NumericAmount;
-    amount1Requested: NumericAmount;
-  }) {
+  async collectPositionFees<TOptions extends BundlerRequestOptions | undefined = undefined>(
+    args: {
+      walletAddress?: string;
+      positionId: string;
+      token0: GalaChainTokenClassKey | string;
+      token1: GalaChainTokenClassKey | string;
+      fee: number;
+      tickLower: number;
+      tickUpper: number;
+      amount0Requested: NumericAmount;
+      amount1Requested: NumericAmount;
+    },
+    options?: TOptions,
+  ): Promise<BundlerRequestResult<TOptions, LiquidityTransactionResult>> {
     const walletAddress = args.walletAddress ?? this.options?.walletAddress;
 
     validateWalletAddress(walletAddress);
@@ -626,6 +696,8 @@ export class Positions {
       'CollectPositionFees',
       toSign,
       stringsInstructions,
+      options,
+      decodeLiquidityResult,
     );
   }
 
@@ -667,6 +739,7 @@ export class Positions {
   private async sendUserPositionsRequest(
     endpoint: string,
     body: unknown,
+    options?: RequestOptions,
   ): Promise<{
     nextBookMark: string;
     positions: GetUserPositionsResult[];
@@ -701,7 +774,10 @@ export class Positions {
           createdAt: string;
         }>;
       };
-    }>(this.gatewayBaseUrl, this.dexContractBasePath, endpoint, body);
+    }>(this.gatewayBaseUrl, this.dexContractBasePath, endpoint, body, {
+      ...options,
+      idempotent: true,
+    });
 
     // Convert string fields to BigNumber
     return {
@@ -713,7 +789,11 @@ export class Positions {
     };
   }
 
-  private async sendPositionRequest(endpoint: string, body: unknown): Promise<GetPositionResult> {
+  private async sendPositionRequest(
+    endpoint: string,
+    body: unknown,
+    options?: RequestOptions,
+  ): Promise<GetPositionResult> {
     const responseBody = await this.httpClient.sendPostRequest<{
       Status: number;
       Data: {
@@ -740,7 +820,10 @@ export class Positions {
         tokensOwed0: string;
         tokensOwed1: string;
       };
-    }>(this.gatewayBaseUrl, this.dexContractBasePath, endpoint, body);
+    }>(this.gatewayBaseUrl, this.dexContractBasePath, endpoint, body, {
+      ...options,
+      idempotent: true,
+    });
 
     // Convert string fields to BigNumber
     return {
@@ -1,36 +1,75 @@
 import { createValidDTO, TokenBalance, TokenClassKey } from '@gala-chain/api';
-import { GalaChainContext } from '@gala-chain/chaincode';
-import {
-  CompositePoolDto,
-  DexFeePercentageTypes,
-  GetCompositePoolDto,
-  Pool,
-  quoteExactAmount,
-  QuoteExactAmountDto,
-  TickData,
-} from '@gala-chain/dex';
+import { CompositePoolDto, GetCompositePoolDto, Pool, TickData } from '@gala-chain/dex';
 import BigNumber from 'bignumber.js';
-import { NumericAmount, Price, SqrtPrice } from '../types/amounts.js';
-import { FEE_TIER } from '../types/fees.js';
-import type { GetQuoteResult } from '../types/sdk_results.js';
+import { NumericAmount } from '../types/amounts.js';
+import { RequestOptions } from '../types/request_options.js';
+import type {
+  GetLiquidityDepthResult,
+  GetQuoteResult,
+  GetRouteQuoteResult,
+  GetSplitQuoteResult,
+  LimitSwapPreview,
+  RouteQuoteHop,
+} from '../types/sdk_results.js';
 import type { GalaChainTokenClassKey } from '../types/token.js';
-import { compareTokens, getTokenOrdering, parseTokenClassKey } from '../utils/token.js';
-import { validateNumericAmount } from '../utils/validation.js';
+import { getDexFeeType, isDexConflictError } from '../utils/dex.js';
+import {
+  compareTokens,
+  getTokenOrdering,
+  parseTokenClassKey,
+  stringifyTokenClassKey,
+} from '../utils/token.js';
+import { validateNumericAmount, validatePriceImpact } from '../utils/validation.js';
 import { GSwapSDKError } from './gswap_sdk_error.js';
 import { HttpClient } from './http_client.js';
+import { LiquidityDepthOptions, PoolSnapshot } from './pool_snapshot.js';
+import { Pools } from './pools.js';
+
+/**
+ * Tokens that multi-hop routes pass through by default.
+ */
+export const DEFAULT_ROUTING_TOKENS = [
+  'GALA|Unit|none|none',
+  'GUSDC|Unit|none|none',
+  'GWETH|Unit|none|none',
+  'GUSDT|Unit|none|none',
+];
+
+/**
+ * Options for multi-hop route quotes.
+ */
+export interface RouteQuoteOptions extends RequestOptions {
+  /** Tokens that routes may pass through. Defaults to {@link DEFAULT_ROUTING_TOKENS}. */
+  intermediateTokens?: Array<GalaChainTokenClassKey | string> | undefined;
+  /** The maximum number of pools a route may use. Defaults to 2. */
+  maxHops?: number | undefined;
+}
+
+type PoolSnapshotGetter = (
+  tokenIn: GalaChainTokenClassKey | string,
+  tokenOut: GalaChainTokenClassKey | string,
+  fee: number,
+) => Promise<PoolSnapshot>;
 
 /**
  * Handles quote operations for token swaps.
  */
 export class Quoting {
   private readonly httpClient: HttpClient;
+  private readonly poolService: Pools;
 
   constructor(
     private readonly gatewayBaseUrl: string,
     private readonly dexContractBasePath: string,
     httpClient?: HttpClient,
+    private readonly options?: {
+      poolService?: Pools | undefined; // Provides the fee tiers to check. Defaults to a Pools instance with the default fee tiers.
+      discoverFeeTiers?: boolean | undefined; // Only check fee tiers that have a pool for the pair, discovered once per pair and cached.
+    },
   ) {
     this.httpClient = httpClient ?? new HttpClient();
+    this.poolService =
+      options?.poolService ?? new Pools(gatewayBaseUrl, dexContractBasePath, this.httpClient);
   }
 
   /**
@@ -39,34 +78,446 @@ export class Quoting {
    * @param tokenOut - The output token to buy.
    * @param amountIn - The exact amount of input tokens you want to sell.
    * @param fee - The pool fee tier. If not specified, will check all available fee tiers and return the best quote.
+   * @param options - Request options, such as an `AbortSignal` to cancel the requests.
    * @returns The expected number of tokens you will receive (buy) when/if you execute the swap.
    */
   async quoteExactInput(
     tokenIn: GalaChainTokenClassKey | string,
     tokenOut: GalaChainTokenClassKey | string,
     amountIn: NumericAmount,
-    fee?: FEE_TIER,
+    fee?: number,
+    options?: RequestOptions,
   ): Promise<GetQuoteResult> {
     validateNumericAmount(amountIn, 'amountIn');
 
     if (fee !== undefined) {
       // Get quote from specific fee tier
-      const result = await this.getSingleQuoteExactInput(tokenIn, tokenOut, fee, amountIn);
+      const result = await this.getSingleQuoteExactInput(
+        tokenIn,
+        tokenOut,
+        fee,
+        amountIn,
+        options?.signal,
+      );
       return result;
     }
 
-    // Get quotes from all fee tiers and return the best one
-    const allFees = [FEE_TIER.PERCENT_00_05, FEE_TIER.PERCENT_00_30, FEE_TIER.PERCENT_01_00];
+    return this.getBestQuote(tokenIn, tokenOut, amountIn, true, options?.signal);
+  }
+
+  /**
+   * Gets a quote for an exact amount of tokens being bought.
+   * @param tokenIn - The input token sell.
+   * @param tokenOut - The output token to buy.
+   * @param amountOut - The exact amount of output tokens you want to buy.
+   * @param fee - The pool fee tier. If not specified, will check all available fee tiers and return the best quote.
+   * @param options - Request options, such as an `AbortSignal` to cancel the requests.
+   * @returns The expected number of tokens you will need to sell (input) to receive the specified amount of output tokens.
+   */
+  async quoteExactOutput(
+    tokenIn: GalaChainTokenClassKey | string,
+    tokenOut: GalaChainTokenClassKey | string,
+    amountOut: string | number | BigNumber,
+    fee?: number,
+    options?: RequestOptions,
+  ): Promise<GetQuoteResult> {
+    validateNumericAmount(amountOut, 'amountOut');
+
+    if (fee !== undefined) {
+      // Get quote from specific fee tier
+      const result = await this.getSingleQuoteExactOutput(
+        tokenIn,
+        tokenOut,
+        amountOut,
+        fee,
+        options?.signal,
+      );
+      return result;
+    }
+
+    return this.getBestQuote(tokenIn, tokenOut, amountOut, false, options?.signal);
+  }
+
+  /**
+   * Fetches the current state of a pool so that it can be quoted against locally, any number of times,
+   * without further network requests.
+   * @param tokenA - One of the tokens of the pool.
+   * @param tokenB - The other token of the pool.
+   * @param fee - The pool fee tier.
+   * @param options - Request options, such as an `AbortSignal` to cancel the request.
+   * @returns A snapshot of the pool. Call {@link PoolSnapshot.refresh} to update it.
+   * @example
+   * ```typescript
+   * const snapshot = await gSwap.quoting.getPoolSnapshot(
+   *   'GALA|Unit|none|none',
+   *   'GUSDC|Unit|none|none',
+   *   FEE_TIER.PERCENT_01_00,
+   * );
+   *
+   * for (const amount of ['10', '100', '1000']) {
+   *   const quote = await snapshot.quoteExactInput('GALA|Unit|none|none', 'GUSDC|Unit|none|none', amount);
+   *   console.log(`${amount} GALA -> ${quote.outTokenAmount} GUSDC`);
+   * }
+   * ```
+   */
+  async getPoolSnapshot(
+    tokenA: GalaChainTokenClassKey | string,
+    tokenB: GalaChainTokenClassKey | string,
+    fee: number,
+    options?: RequestOptions,
+  ): Promise<PoolSnapshot> {
+    const ordering = getTokenOrdering(
+      parseTokenClassKey(tokenA),
+      parseTokenClassKey(tokenB),
+      false,
+    );
+    const fetchCompositePool = (fetchOptions?: RequestOptions) =>
+      this.getCompositePool(ordering.token0, ordering.token1, fee, fetchOptions);
+
+    return new PoolSnapshot(
+      stringifyTokenClassKey(ordering.token0),
+      stringifyTokenClassKey(ordering.token1),
+      fee,
+      await fetchCompositePool(options),
+      fetchCompositePool,
+    );
+  }
+
+  /**
+   * Finds the best route for selling an exact amount of a token, including routes that pass
+   * through intermediate tokens when there is no direct pool (or when a multi-hop route gives a better price).
+   * Each hop is quoted against the best fee tier for that pair.
+   * @param tokenIn - The input token to sell.
+   * @param tokenOut - The output token to buy.
+   * @param amountIn - The exact amount of input tokens you want to sell.
+   * @param options - Routing options.
+   * @param options.intermediateTokens - Tokens that routes may pass through. Defaults to GALA, GUSDC, GWETH and GUSDT.
+   * @param options.maxHops - The maximum number of pools a route may use. Defaults to 2.
+   * @param options.signal - Cancels the requests when aborted.
+   * @returns The route with the highest output amount, including a quote for each hop.
+   * @example
+   * ```typescript
+   * const route = await gSwap.quoting.quoteExactInputRoute(
+   *   'SILK|Unit|none|none',
+   *   'GWETH|Unit|none|none',
+   *   '100',
+   * );
+   * console.log(route.path); // e.g. ['SILK|Unit|none|none', 'GALA|Unit|none|none', 'GWETH|Unit|none|none']
+   * ```
+   */
+  async quoteExactInputRoute(
+    tokenIn: GalaChainTokenClassKey | string,
+    tokenOut: GalaChainTokenClassKey | string,
+    amountIn: NumericAmount,
+    options?: RouteQuoteOptions,
+  ): Promise<GetRouteQuoteResult> {
+    validateNumericAmount(amountIn, 'amountIn');
+
+    const routes = await this.quoteRoutes(tokenIn, tokenOut, amountIn, true, options);
+
+    // Return the route with the highest output amount
+    return routes.reduce((best, current) =>
+      current.outTokenAmount.isGreaterThan(best.outTokenAmount) ? current : best,
+    );
+  }
+
+  /**
+   * Finds the best route for buying an exact amount of a token, including routes that pass
+   * through intermediate tokens when there is no direct pool (or when a multi-hop route gives a better price).
+   * Each hop is quoted against the best fee tier for that pair.
+   * @param tokenIn - The input token to sell.
+   * @param tokenOut - The output token to buy.
+   * @param amountOut - The exact amount of output tokens you want to buy.
+   * @param options - Routing options.
+   * @param options.intermediateTokens - Tokens that routes may pass through. Defaults to GALA, GUSDC, GWETH and GUSDT.
+   * @param options.maxHops - The maximum number of pools a route may use. Defaults to 2.
+   * @param options.signal - Cancels the requests when aborted.
+   * @returns The route with the lowest input amount, including a quote for each hop.
+   */
+  async quoteExactOutputRoute(
+    tokenIn: GalaChainTokenClassKey | string,
+    tokenOut: GalaChainTokenClassKey | string,
+    amountOut: NumericAmount,
+    options?: RouteQuoteOptions,
+  ): Promise<GetRouteQuoteResult> {
+    validateNumericAmount(amountOut, 'amountOut');
+
+    const routes = await this.quoteRoutes(tokenIn, tokenOut, amountOut, false, options);
+
+    // Return the route with the lowest input amount (least tokens needed to sell)
+    return routes.reduce((best, current) =>
+      current.inTokenAmount.isLessThan(best.inTokenAmount) ? current : best,
+    );
+  }
+
+  /**
+   * Gets a quote for selling an exact amount of a token, split across the pools of every fee tier for the pair.
+   * Large orders often get a better overall price when they are spread across several pools
+   * instead of moving the price of a single pool.
+   * @param tokenIn - The input token to sell.
+   * @param tokenOut - The output token to buy.
+   * @param amountIn - The exact amount of input tokens you want to sell.
+   * @param options - Split options.
+   * @param options.steps - The number of equal parts the order is divided into while searching for the best split. More steps give a finer split at the cost of more (local) computation. Defaults to 20.
+   * @param options.signal - Cancels the requests when aborted.
+   * @returns The split that maximizes the output amount, with a quote for each pool used.
+   * @example
+   * ```typescript
+   * const split = await gSwap.quoting.quoteExactInputSplit(
+   *   'GALA|Unit|none|none',
+   *   'GUSDC|Unit|none|none',
+   *   '1000000',
+   * );
+   *
+   * split.splits.forEach((quote) => {
+   *   console.log(`Sell ${quote.inTokenAmount} in the ${quote.feeTier} pool for ${quote.outTokenAmount}`);
+   * });
+   * ```
+   */
+  async quoteExactInputSplit(
+    tokenIn: GalaChainTokenClassKey | string,
+    tokenOut: GalaChainTokenClassKey | string,
+    amountIn: NumericAmount,
+    options?: { steps?: number | undefined } & RequestOptions,
+  ): Promise<GetSplitQuoteResult> {
+    validateNumericAmount(amountIn, 'amountIn');
+
+    const steps = options?.steps ?? 20;
+    if (!Number.isInteger(steps) || steps < 1) {
+      throw new GSwapSDKError('Invalid steps: must be a positive integer', 'VALIDATION_ERROR', {
+        type: 'INVALID_STEPS',
+        value: steps,
+      });
+    }
+
+    const feeTiers = await this.getFeeTiers(tokenIn, tokenOut, options?.signal);
+
+    const poolPromises = feeTiers.map(async (feeTier) => {
+      try {
+        return await this.getPoolSnapshot(tokenIn, tokenOut, feeTier, options);
+      } catch (err) {
+        if (err instanceof GSwapSDKError && err.code === 'OBJECT_NOT_FOUND') {
+          // Ignore this error, it means no pool was found for this fee tier
+          return undefined;
+        }
+
+        throw err;
+      }
+    });
+
+    const pools = (await Promise.all(poolPromises)).filter(
+      (pool): pool is PoolSnapshot => pool !== undefined,
+    );
+
+    if (pools.length === 0) {
+      throw GSwapSDKError.noPoolAvailableError(tokenIn, tokenOut);
+    }
+
+    const quoteAllocation = async (
+      pool: PoolSnapshot,
+      amount: BigNumber,
+    ): Promise<GetQuoteResult | undefined> => {
+      try {
+        return await pool.quoteExactInput(tokenIn, tokenOut, amount);
+      } catch (err) {
+        if (isDexConflictError(err)) {
+          // Not enough liquidity in this pool for this amount
+          return undefined;
+        }
+
+        throw err;
+      }
+    };
+
+    const inTokenDecimals: number =
+      compareTokens(tokenIn, tokenOut) < 0 ? pools[0]!.token0Decimals : pools[0]!.token1Decimals;
+    const totalAmountIn = BigNumber(amountIn);
+    const stepAmount = totalAmountIn
+      .dividedBy(steps)
+      .decimalPlaces(inTokenDecimals, BigNumber.ROUND_DOWN);
+
+    // Greedily give each step to the pool with the best marginal output
+    const allocations = pools.map(() => BigNumber(0));
+    const quotes: Array<GetQuoteResult | undefined> = pools.map(() => undefined);
+
+    for (let step = 0; step < steps; step++) {
+      const isLastStep = step === steps - 1;
+      const amount = isLastStep
+        ? totalAmountIn.minus(stepAmount.multipliedBy(steps - 1))
+        : stepAmount;
+
+      if (amount.isZero()) {
+        continue;
+      }
+
+      const candidates = await Promise.all(
+        pools.map((pool, index) => quoteAllocation(pool, allocations[index]!.plus(amount))),
+      );
+
+      let bestIndex: number | undefined;
+      let bestMarginalOut: BigNumber | undefined;
+
+      candidates.forEach((candidate, index) => {
+        if (!candidate) {
+          return;
+        }
+
+        const currentOut = quotes[index]?.outTokenAmount ?? BigNumber(0);
+        const marginalOut = candidate.outTokenAmount.minus(currentOut);
+
+        if (!bestMarginalOut || marginalOut.isGreaterThan(bestMarginalOut)) {
+          bestIndex = index;
+          bestMarginalOut = marginalOut;
+        }
+      });
+
+      if (bestIndex === undefined) {
+        throw new GSwapSDKError(
+          'Not enough liquidity to fill the order across the available pools',
+          'INSUFFICIENT_LIQUIDITY',
+          {
+            tokenIn,
+            tokenOut,
+            amountIn: totalAmountIn.toFixed(),
+          },
+        );
+      }
+
+      allocations[bestIndex] = allocations[bestIndex]!.plus(amount);
+      quotes[bestIndex] = candidates[bestIndex];
+    }
+
+    const splits = quotes.filter((quote): quote is GetQuoteResult => quote !== undefined);
+
+    return {
+      tokenIn: stringifyTokenClassKey(tokenIn),
+      tokenOut: stringifyTokenClassKey(tokenOut),
+      splits,
+      inTokenAmount: splits.reduce((total, quote) => total.plus(quote.inTokenAmount), BigNumber(0)),
+      outTokenAmount: splits.reduce(
+        (total, quote) => total.plus(quote.outTokenAmount),
+        BigNumber(0),
+      ),
+    };
+  }
+
+  /**
+   * Calculates how much of a token can be sold into a pool before its price moves by given amounts.
+   * The calculation is done locally against the pool's tick data, after fetching the pool once.
+   * @param tokenIn - The input token to sell.
+   * @param tokenOut - The output token to buy.
+   * @param fee - The pool fee tier.
+   * @param options - Depth options.
+   * @param options.priceImpacts - Price moves to report depth for, as positive fractions (e.g. 0.01 for 1%). Defaults to 0.5%, 1%, 2% and 5%.
+   * @param options.curvePoints - The number of points to sample along the depth curve, up to the largest price move. Defaults to 20.
+   * @param options.signal - Cancels the request when aborted.
+   * @returns The depth at each requested price move, and a sampled curve of amounts and price impacts.
+   * @example
+   * ```typescript
+   * const depth = await gSwap.quoting.getLiquidityDepth(
+   *   'GALA|Unit|none|none',
+   *   'GUSDC|Unit|none|none',
+   *   FEE_TIER.PERCENT_01_00,
+   * );
+   *
+   * depth.levels.forEach((level) => {
+   *   console.log(`Selling ${level.inTokenAmount} GALA moves the price by ${level.priceImpact.multipliedBy(100)}%`);
+   * });
+   * ```
+   */
+  async getLiquidityDepth(
+    tokenIn: GalaChainTokenClassKey | string,
+    tokenOut: GalaChainTokenClassKey | string,
+    fee: number,
+    options?: LiquidityDepthOptions & RequestOptions,
+  ): Promise<GetLiquidityDepthResult> {
+    const poolSnapshot = await this.getPoolSnapshot(tokenIn, tokenOut, fee, options);
+    return poolSnapshot.getLiquidityDepth(tokenIn, tokenOut, options);
+  }
+
+  /**
+   * Previews how much of a limit price swap would fill, before submitting it with {@link Swaps.swap}.
+   * The swap is simulated locally against the pool's tick data, so only the pool itself is fetched.
+   * @param tokenIn - The input token to sell.
+   * @param tokenOut - The output token to buy.
+   * @param fee - The pool fee tier.
+   * @param amount - The requested swap.
+   * @param amount.exactIn - For exact input swaps, the amount of input tokens to sell.
+   * @param amount.exactOut - For exact output swaps, the amount of output tokens to buy.
+   * @param amount.limitPrice - The worst price the swap may move the pool to (output tokens per input token).
+   * @param options - Request options, such as an `AbortSignal` to cancel the request.
+   * @returns The amounts that would fill, and whether the whole requested amount fills.
+   * @example
+   * ```typescript
+   * const preview = await gSwap.quoting.previewLimitSwap(
+   *   'GALA|Unit|none|none',
+   *   'GUSDC|Unit|none|none',
+   *   FEE_TIER.PERCENT_01_00,
+   *   { exactIn: '1000', limitPrice: '0.015' },
+   * );
+   *
+   * console.log(`${preview.fillRatio.multipliedBy(100)}% of the swap would fill`);
+   * ```
+   */
+  async previewLimitSwap(
+    tokenIn: GalaChainTokenClassKey | string,
+    tokenOut: GalaChainTokenClassKey | string,
+    fee: number,
+    amount:
+      | { exactIn: NumericAmount; limitPrice: NumericAmount }
+      | { exactOut: NumericAmount; limitPrice: NumericAmount },
+    options?: RequestOptions,
+  ): Promise<LimitSwapPreview> {
+    const poolSnapshot = await this.getPoolSnapshot(tokenIn, tokenOut, fee, options);
+    return poolSnapshot.previewLimitSwap(tokenIn, tokenOut, amount);
+  }
+
+  /**
+   * Finds the largest amount of a token that can be sold without moving the pool price by more than a limit.
+   * The amount is solved locally against the pool's tick data, so only the pool itself is fetched.
+   * @param tokenIn - The input token to sell.
+   * @param tokenOut - The output token to buy.
+   * @param maxImpact - The maximum price impact, as a positive fraction (e.g. 0.01 for 1%).
+   * @param fee - The pool fee tier. If not specified, will check all available fee tiers and return the largest input.
+   * @param options - Request options, such as an `AbortSignal` to cancel the requests.
+   * @returns The quote for the largest input amount that stays within the limit.
+   * @example
+   * ```typescript
+   * const quote = await gSwap.quoting.maxInputForPriceImpact(
+   *   'GALA|Unit|none|none',
+   *   'GUSDC|Unit|none|none',
+   *   0.01,
+   * );
+   *
+   * console.log(`You can sell up to ${quote.inTokenAmount} GALA in the ${quote.feeTier} pool`);
+   * ```
+   */
+  async maxInputForPriceImpact(
+    tokenIn: GalaChainTokenClassKey | string,
+    tokenOut: GalaChainTokenClassKey | string,
+    maxImpact: NumericAmount,
+    fee?: number,
+    options?: RequestOptions,
+  ): Promise<GetQuoteResult> {
+    validatePriceImpact(maxImpact, 'maxImpact');
+
+    if (fee !== undefined) {
+      const poolSnapshot = await this.getPoolSnapshot(tokenIn, tokenOut, fee, options);
+      return poolSnapshot.maxInputForPriceImpact(tokenIn, tokenOut, maxImpact);
+    }
 
-    const quotePromises = allFees.map(async (feeTier) => {
+    const feeTiers = await this.getFeeTiers(tokenIn, tokenOut, options?.signal);
+
+    const quotePromises = feeTiers.map(async (feeTier) => {
       try {
-        return await this.getSingleQuoteExactInput(tokenIn, tokenOut, feeTier, amountIn);
+        const poolSnapshot = await this.getPoolSnapshot(tokenIn, tokenOut, feeTier, options);
+        return await poolSnapshot.maxInputForPriceImpact(tokenIn, tokenOut, maxImpact);
       } catch (err) {
         if (
           err instanceof GSwapSDKError &&
-          (err.code === 'CONFLICT' || err.code === 'OBJECT_NOT_FOUND')
+          (err.code === 'OBJECT_NOT_FOUND' || err.code === 'INSUFFICIENT_LIQUIDITY')
         ) {
-          // Ignore this error, it means no pool was found for this fee tier, or there's not enough liquidity
+          // Ignore this error, it means no pool was found for this fee tier, or it can't fill any amount within the limit
           return undefined;
         }
 
@@ -81,44 +532,199 @@ export class Quoting {
       throw GSwapSDKError.noPoolAvailableError(tokenIn, tokenOut);
     }
 
-    // Return the quote with the highest output amount
+    // Return the quote with the largest input amount
     return quotes.reduce((best, current) =>
-      current.outTokenAmount.isGreaterThan(best.outTokenAmount) ? current : best,
+      current.inTokenAmount.isGreaterThan(best.inTokenAmount) ? current : best,
     );
   }
 
-  /**
-   * Gets a quote for an exact amount of tokens being bought.
-   * @param tokenIn - The input token sell.
-   * @param tokenOut - The output token to buy.
-   * @param amountOut - The exact amount of output tokens you want to buy.
-   * @param fee - The pool fee tier. If not specified, will check all available fee tiers and return the best quote.
-   * @returns The expected number of tokens you will need to sell (input) to receive the specified amount of output tokens.
-   */
-  async quoteExactOutput(
+  private async getFeeTiers(
     tokenIn: GalaChainTokenClassKey | string,
     tokenOut: GalaChainTokenClassKey | string,
-    amountOut: string | number | BigNumber,
-    fee?: FEE_TIER,
-  ): Promise<GetQuoteResult> {
-    validateNumericAmount(amountOut, 'amountOut');
+    signal?: AbortSignal,
+  ): Promise<number[]> {
+    const feeTiers = this.options?.discoverFeeTiers
+      ? await this.poolService.getAvailableFeeTiers(tokenIn, tokenOut, { signal })
+      : this.poolService.getFeeTiers();
 
-    if (fee !== undefined) {
-      // Get quote from specific fee tier
-      const result = await this.getSingleQuoteExactOutput(tokenIn, tokenOut, amountOut, fee);
-      return result;
+    return feeTiers.map((feeTier) => feeTier.fee);
+  }
+
+  private async quoteRoutes(
+    tokenIn: GalaChainTokenClassKey | string,
+    tokenOut: GalaChainTokenClassKey | string,
+    amount: NumericAmount,
+    isExactInput: boolean,
+    options?: RouteQuoteOptions,
+  ): Promise<GetRouteQuoteResult[]> {
+    const maxHops = options?.maxHops ?? 2;
+    if (!Number.isInteger(maxHops) || maxHops < 1) {
+      throw new GSwapSDKError('Invalid maxHops: must be a positive integer', 'VALIDATION_ERROR', {
+        type: 'INVALID_MAX_HOPS',
+        value: maxHops,
+      });
     }
 
+    const tokenInKey = stringifyTokenClassKey(parseTokenClassKey(tokenIn));
+    const tokenOutKey = stringifyTokenClassKey(parseTokenClassKey(tokenOut));
+    const intermediateTokens = [
+      ...new Set(
+        (options?.intermediateTokens ?? DEFAULT_ROUTING_TOKENS).map((token) =>
+          stringifyTokenClassKey(parseTokenClassKey(token)),
+        ),
+      ),
+    ].filter((token) => token !== tokenInKey && token !== tokenOutKey);
+
+    const paths: string[][] = [];
+    const visit = (path: string[]) => {
+      paths.push([...path, tokenOutKey]);
+      if (path.length >= maxHops) {
+        return;
+      }
+
+      for (const token of intermediateTokens) {
+        if (!path.includes(token)) {
+          visit([...path, token]);
+        }
+      }
+    };
+    visit([tokenInKey]);
+
+    // Many routes share pools, so only fetch each pool once per route search
+    const poolSnapshotCache = new Map<string, Promise<PoolSnapshot>>();
+    const getPoolSnapshot = (
+      poolTokenIn: GalaChainTokenClassKey | string,
+      poolTokenOut: GalaChainTokenClassKey | string,
+      fee: number,
+    ) => {
+      const ordering = getTokenOrdering(poolTokenIn, poolTokenOut, false);
+      const cacheKey = `${stringifyTokenClassKey(ordering.token0)}/${stringifyTokenClassKey(ordering.token1)}/${fee}`;
+
+      let poolSnapshot = poolSnapshotCache.get(cacheKey);
+      if (!poolSnapshot) {
+        poolSnapshot = this.getPoolSnapshot(poolTokenIn, poolTokenOut, fee, options);
+        poolSnapshotCache.set(cacheKey, poolSnapshot);
+      }
+
+      return poolSnapshot;
+    };
+
+    const routePromises = paths.map(async (path) => {
+      try {
+        return await this.quoteRoutePath(
+          path,
+          amount,
+          isExactInput,
+          getPoolSnapshot,
+          options?.signal,
+        );
+      } catch (err) {
+        if (err instanceof GSwapSDKError && err.code === 'NO_POOL_AVAILABLE') {
+          // Ignore this route, one of its hops has no pool
+          return undefined;
+        }
+
+        if (isDexConflictError(err)) {
+          // Ignore this route, one of its hops doesn't have enough liquidity for the amount
+          return undefined;
+        }
+
+        throw err;
+      }
+    });
+
+    const results = await Promise.all(routePromises);
+    const routes = results.filter((route): route is GetRouteQuoteResult => route !== undefined);
+
+    if (routes.length === 0) {
+      throw GSwapSDKError.noPoolAvailableError(tokenIn, tokenOut);
+    }
+
+    return routes;
+  }
+
+  private async quoteRoutePath(
+    path: string[],
+    amount: NumericAmount,
+    isExactInput: boolean,
+    getPoolSnapshot: PoolSnapshotGetter,
+    signal?: AbortSignal,
+  ): Promise<GetRouteQuoteResult> {
+    const hops: RouteQuoteHop[] = [];
+    let hopAmount = BigNumber(amount);
+
+    if (isExactInput) {
+      for (let i = 0; i < path.length - 1; i++) {
+        const hopTokenIn = path[i]!;
+        const hopTokenOut = path[i + 1]!;
+        const quote = await this.getBestQuote(
+          hopTokenIn,
+          hopTokenOut,
+          hopAmount,
+          true,
+          signal,
+          getPoolSnapshot,
+        );
+
+        hops.push({ ...quote, tokenIn: hopTokenIn, tokenOut: hopTokenOut });
+        hopAmount = quote.outTokenAmount;
+      }
+    } else {
+      // Work backwards from the output token, since each hop must produce the input of the next
+      for (let i = path.length - 1; i > 0; i--) {
+        const hopTokenIn = path[i - 1]!;
+        const hopTokenOut = path[i]!;
+        const quote = await this.getBestQuote(
+          hopTokenIn,
+          hopTokenOut,
+          hopAmount,
+          false,
+          signal,
+          getPoolSnapshot,
+        );
+
+        hops.unshift({ ...quote, tokenIn: hopTokenIn, tokenOut: hopTokenOut });
+        hopAmount = quote.inTokenAmount;
+      }
+    }
+
+    // Price impacts compound across hops
+    const priceImpact = hops
+      .reduce((total, hop) => total.multipliedBy(hop.priceImpact.plus(1)), BigNumber(1))
+      .minus(1);
+
+    return {
+      path,
+      hops,
+      inTokenAmount: hops[0]!.inTokenAmount,
+      outTokenAmount: hops[hops.length - 1]!.outTokenAmount,
+      priceImpact,
+    };
+  }
+
+  private async getBestQuote(
+    tokenIn: GalaChainTokenClassKey | string,
+    tokenOut: GalaChainTokenClassKey | string,
+    amount: NumericAmount,
+    isExactInput: boolean,
+    signal?: AbortSignal,
+    getPoolSnapshot: PoolSnapshotGetter = (poolTokenIn, poolTokenOut, fee) =>
+      this.getPoolSnapshot(poolTokenIn, poolTokenOut, fee, { signal }),
+  ): Promise<GetQuoteResult> {
     // Get quotes from all fee tiers and return the best one
-    const allFees = [FEE_TIER.PERCENT_00_05, FEE_TIER.PERCENT_00_30, FEE_TIER.PERCENT_01_00];
+    const feeTiers = await this.getFeeTiers(tokenIn, tokenOut, signal);
 
-    const quotePromises = allFees.map(async (feeTier) => {
+    const quotePromises = feeTiers.map(async (feeTier) => {
       try {
-        return await this.getSingleQuoteExactOutput(tokenIn, tokenOut, amountOut, feeTier);
+        const poolSnapshot = await getPoolSnapshot(tokenIn, tokenOut, feeTier);
+        return isExactInput
+          ? await poolSnapshot.quoteExactInput(tokenIn, tokenOut, amount)
+          : await poolSnapshot.quoteExactOutput(tokenIn, tokenOut, amount);
       } catch (err) {
         if (
-          err instanceof GSwapSDKError &&
-          (err.code === 'CONFLICT' || err.code === 'OBJECT_NOT_FOUND')
+          (err instanceof GSwapSDKError &&
+            (err.code === 'CONFLICT' || err.code === 'OBJECT_NOT_FOUND')) ||
+          isDexConflictError(err)
         ) {
           // Ignore this error, it means no pool was found for this fee tier, or there's not enough liquidity
           return undefined;
@@ -135,6 +741,13 @@ export class Quoting {
       throw GSwapSDKError.noPoolAvailableError(tokenIn, tokenOut);
     }
 
+    if (isExactInput) {
+      // Return the quote with the highest output amount
+      return quotes.reduce((best, current) =>
+        current.outTokenAmount.isGreaterThan(best.outTokenAmount) ? current : best,
+      );
+    }
+
     // Return the quote with the lowest input amount (least tokens needed to sell)
     return quotes.reduce((best, current) =>
       current.inTokenAmount.isLessThan(best.inTokenAmount) ? current : best,
@@ -144,137 +757,80 @@ export class Quoting {
   private async getSingleQuote(
     tokenIn: GalaChainTokenClassKey | string,
     tokenOut: GalaChainTokenClassKey | string,
-    fee: FEE_TIER,
+    fee: number,
     amount: NumericAmount,
     isExactInput: boolean,
+    signal?: AbortSignal,
   ): Promise<GetQuoteResult> {
-    const tokenInClass = parseTokenClassKey(tokenIn);
-    const tokenInClassKey = await createValidDTO<TokenClassKey>(TokenClassKey, tokenInClass);
-    const tokenOutClass = parseTokenClassKey(tokenOut);
-    const tokenOutClassKey = await createValidDTO<TokenClassKey>(TokenClassKey, tokenOutClass);
-    const ordering = getTokenOrdering(tokenInClass, tokenOutClass, false);
-
-    // Create DTOs for ordered tokens (token0 < token1 as required by DEX library)
-    // ordering.token0 and token1 are already parsed GalaChainTokenClassKey objects
-    const token0ClassKey = await createValidDTO<TokenClassKey>(
+    const poolSnapshot = await this.getPoolSnapshot(tokenIn, tokenOut, fee, { signal });
+    return isExactInput
+      ? poolSnapshot.quoteExactInput(tokenIn, tokenOut, amount)
+      : poolSnapshot.quoteExactOutput(tokenIn, tokenOut, amount);
+  }
+
+  private async getCompositePool(
+    tokenIn: GalaChainTokenClassKey | string,
+    tokenOut: GalaChainTokenClassKey | string,
+    fee: number,
+    options?: RequestOptions,
+  ): Promise<CompositePoolDto> {
+    const tokenInClassKey = await createValidDTO<TokenClassKey>(
       TokenClassKey,
-      ordering.token0 as GalaChainTokenClassKey,
+      parseTokenClassKey(tokenIn),
     );
-    const token1ClassKey = await createValidDTO<TokenClassKey>(
+    const tokenOutClassKey = await createValidDTO<TokenClassKey>(
       TokenClassKey,
-      ordering.token1 as GalaChainTokenClassKey,
+      parseTokenClassKey(tokenOut),
     );
 
-    // Format amount based on quote type
-    const formattedAmount = isExactInput
-      ? BigNumber(amount).toFixed()
-      : BigNumber(amount).multipliedBy(-1).toFixed();
-
-    // TODO: use native dex types from the dex library throughout the sdk
-    let feeType: DexFeePercentageTypes;
-    switch (fee) {
-      case FEE_TIER.PERCENT_00_05:
-        feeType = DexFeePercentageTypes.FEE_0_05_PERCENT;
-        break;
-      case FEE_TIER.PERCENT_00_30:
-        feeType = DexFeePercentageTypes.FEE_0_3_PERCENT;
-        break;
-      case FEE_TIER.PERCENT_01_00:
-        feeType = DexFeePercentageTypes.FEE_1_PERCENT;
-        break;
-      default:
-        throw new Error(`Invalid fee tier: ${fee}`);
-    }
-
     const zeroForOne = compareTokens(tokenIn, tokenOut) < 0;
 
     const getCompositePoolDto = new GetCompositePoolDto(
       zeroForOne ? tokenInClassKey : tokenOutClassKey,
       zeroForOne ? tokenOutClassKey : tokenInClassKey,
-      feeType,
+      getDexFeeType(fee),
     );
 
     //get composite pool data
-    const compositePoolResponse = await this.sendGetCompositePoolRequest(getCompositePoolDto);
-
-    // Convert response data to proper CompositePoolDto with BigNumber conversions
-    const compositePool = this.createCompositePoolDtoFromResponse(compositePoolResponse);
-
-    // Use ordered tokens (token0 < token1) as required by DEX library
-    const quoteDto = new QuoteExactAmountDto(
-      token0ClassKey,
-      token1ClassKey,
-      feeType,
-      BigNumber(formattedAmount),
-      zeroForOne,
-      compositePool,
+    const compositePoolResponse = await this.sendGetCompositePoolRequest(
+      getCompositePoolDto,
+      options,
     );
 
-    // fake context - not used when providing a composite pool
-    const context = {
-      callingUser: 'eth|123...abc',
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      stub: null as any,
-      clientIdentity: {
-        getMSPID: () => 'UsersOrg',
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      } as any,
-    } as GalaChainContext;
-    const response = await quoteExactAmount(context, quoteDto);
-
-    const tokenInAmount = ordering.zeroForOne ? response.amount0 : response.amount1;
-    const tokenOutAmount = ordering.zeroForOne ? response.amount1 : response.amount0;
-
-    let currentPrice = response.currentSqrtPrice.pow(2) as Price;
-    let newPrice = response.newSqrtPrice.pow(2) as Price;
-
-    if (!ordering.zeroForOne) {
-      currentPrice = BigNumber(1).dividedBy(currentPrice) as Price;
-      newPrice = BigNumber(1).dividedBy(newPrice) as Price;
-    }
-
-    const priceImpact = newPrice.minus(currentPrice).dividedBy(currentPrice);
-
-    return {
-      amount0: response.amount0,
-      amount1: response.amount1,
-      currentPoolSqrtPrice: response.currentSqrtPrice as SqrtPrice,
-      newPoolSqrtPrice: response.newSqrtPrice as SqrtPrice,
-      currentPrice,
-      newPrice,
-      inTokenAmount: tokenInAmount.abs(),
-      outTokenAmount: tokenOutAmount.abs(),
-      priceImpact,
-      feeTier: fee,
-    };
+    // Convert response data to proper CompositePoolDto with BigNumber conversions
+    return this.createCompositePoolDtoFromResponse(compositePoolResponse);
   }
 
   private async getSingleQuoteExactInput(
     tokenIn: GalaChainTokenClassKey | string,
     tokenOut: GalaChainTokenClassKey | string,
-    fee: FEE_TIER,
+    fee: number,
     amountIn: NumericAmount,
+    signal?: AbortSignal,
   ): Promise<GetQuoteResult> {
-    return this.getSingleQuote(tokenIn, tokenOut, fee, amountIn, true);
+    return this.getSingleQuote(tokenIn, tokenOut, fee, amountIn, true, signal);
   }
 
   private async getSingleQuoteExactOutput(
     tokenIn: GalaChainTokenClassKey | string,
     tokenOut: GalaChainTokenClassKey | string,
     amountOut: string | number | BigNumber,
-    fee: FEE_TIER,
+    fee: number,
+    signal?: AbortSignal,
   ): Promise<GetQuoteResult> {
-    return this.getSingleQuote(tokenIn, tokenOut, fee, amountOut, false);
+    return this.getSingleQuote(tokenIn, tokenOut, fee, amountOut, false, signal);
   }
 
   private async sendGetCompositePoolRequest(
     getCompositePoolDto: GetCompositePoolDto,
+    options?: RequestOptions,
   ): Promise<CompositePoolDto> {
     const response = await this.httpClient.sendPostRequest(
       this.gatewayBaseUrl,
       this.dexContractBasePath,
       '/GetCompositePool',
       getCompositePoolDto,
+      { ...options, idempotent: true },
     );
 
     const responseBody = response as {
@@ -1,13 +1,46 @@
 import BigNumber from 'bignumber.js';
 import { NumericAmount } from '../types/amounts.js';
+import { RequestOptions } from '../types/request_options.js';
+import {
+  GetQuoteResult,
+  GetRouteQuoteResult,
+  GetSplitQuoteResult,
+  SwapTransactionResult,
+} from '../types/sdk_results.js';
 import { GalaChainTokenClassKey } from '../types/token.js';
+import { getSqrtPriceLimitForPrice } from '../utils/pool_math.js';
+import { getAmountInMaximum, getAmountOutMinimum } from '../utils/slippage.js';
 import { getTokenOrdering, parseTokenClassKey, stringifyTokenClassKey } from '../utils/token.js';
-import { validateFee, validateNumericAmount, validateWalletAddress } from '../utils/validation.js';
-import { Bundler } from './bundler.js';
+import { decodeRouteSwapResult, decodeSwapResult } from '../utils/transaction_results.js';
+import {
+  validateFee,
+  validateNumericAmount,
+  validatePriceImpact,
+  validateSlippageBps,
+  validateWalletAddress,
+} from '../utils/validation.js';
+import { Bundler, BundlerRequestOptions, BundlerRequestResult } from './bundler.js';
+import { GSwapSDKError } from './gswap_sdk_error.js';
+import { PendingTransaction } from './pending_transaction.js';
+import type { Quoting } from './quoting.js';
 
 const MIN_SQRT_PRICE_LIMIT = '0.000000000000000000094212147';
 const MAX_SQRT_PRICE_LIMIT = '18446050999999999999';
 
+/**
+ * Result of {@link Swaps.swapWithSlippage}.
+ */
+export interface SwapWithSlippageResult {
+  /** The quote the swap was based on */
+  quote: GetQuoteResult;
+  /** For exact input swaps, the minimum amount of output tokens the swap accepts */
+  amountOutMinimum?: BigNumber | undefined;
+  /** For exact output swaps, the maximum amount of input tokens the swap may sell */
+  amountInMaximum?: BigNumber | undefined;
+  /** The submitted swap transaction */
+  transaction: PendingTransaction<SwapTransactionResult>;
+}
+
 /**
  * Service for handling token swap operations.
  */
@@ -16,6 +49,7 @@ export class Swaps {
     private readonly bundlerService: Bundler,
     private readonly options?: {
       walletAddress?: string | undefined;
+      quotingService?: Quoting | undefined; // Required for swapWithSlippage()
     },
   ) {}
 
@@ -30,21 +64,36 @@ export class Swaps {
    * @param amount.amountOutMinimum - For exact input swaps, the minimum amount of output tokens to buy (slippage protection).
    * @param amount.exactOut - For exact output swaps, the exact amount of output tokens to buy.
    * @param amount.amountInMaximum - For exact output swaps, the maximum amount of input tokens to sell (slippage protection).
-   * @returns Pending transaction.
+   * @param amount.limitPrice - If specified, the worst price (output tokens per input token) the swap may move the pool to.
+   * The swap stops at this price, so it may only partially fill; `amountOutMinimum` and `amountInMaximum` still apply to the filled amounts.
+   * An exact output swap with a limit price may buy less than `exactOut`.
+   * Use {@link Quoting.previewLimitSwap} to see how much would fill before submitting.
+   * @param options - Request options. With `dryRun`, the signed request is returned instead of being submitted.
+   * @returns Pending transaction, whose `wait()` resolves with the amounts swapped, or the signed request in dry-run mode.
    * @example
    * ```typescript
    * // Exact input swap: sell 100 GALA for USDC
-   * const result = await swapsService.swap(
+   * const pendingTx = await swapsService.swap(
    *   'GALA|Unit|none|none',
    *   'GUSDC|Unit|none|none',
    *   500,
    *   { exactIn: '100', amountOutMinimum: '45' },
    *   'eth|123...abc', // your wallet address
    * );
-   * console.log('Swap successful:', result);
+   * const { outTokenAmount } = await pendingTx.wait();
+   * console.log(`Bought ${outTokenAmount.toFixed()} USDC`);
+   *
+   * // Limit price swap: sell up to 100 GALA, as long as each GALA still buys at least 0.45 USDC
+   * await swapsService.swap(
+   *   'GALA|Unit|none|none',
+   *   'GUSDC|Unit|none|none',
+   *   500,
+   *   { exactIn: '100', limitPrice: '0.45' },
+   *   'eth|123...abc',
+   * );
    * ```
    */
-  async swap(
+  async swap<TOptions extends BundlerRequestOptions | undefined = undefined>(
     tokenIn: GalaChainTokenClassKey | string,
     tokenOut: GalaChainTokenClassKey | string,
     fee: number,
@@ -52,18 +101,377 @@ export class Swaps {
       | {
           exactIn: NumericAmount;
           amountOutMinimum?: NumericAmount;
+          limitPrice?: NumericAmount;
         }
       | {
           exactOut: NumericAmount;
           amountInMaximum?: NumericAmount;
+          limitPrice?: NumericAmount;
         },
     walletAddress?: string,
-  ) {
+    options?: TOptions,
+  ): Promise<BundlerRequestResult<TOptions, SwapTransactionResult>> {
     walletAddress = walletAddress ?? this.options?.walletAddress;
 
     validateWalletAddress(walletAddress);
     validateFee(fee);
 
+    const { toSign, stringsInstructions } = this.buildSwapRequest(
+      tokenIn,
+      tokenOut,
+      fee,
+      amount,
+      walletAddress,
+    );
+
+    return this.bundlerService.sendBundlerRequest(
+      'Swap',
+      toSign,
+      stringsInstructions,
+      options,
+      decodeSwapResult,
+    );
+  }
+
+  /**
+   * Quotes a swap across all fee tiers, then executes it in the best pool with slippage protection
+   * derived from the quote.
+   * @param args - Swap parameters.
+   * @param args.tokenIn - The input token to sell.
+   * @param args.tokenOut - The output token to buy.
+   * @param args.exactIn - For exact input swaps, the exact amount of input tokens to sell.
+   * @param args.exactOut - For exact output swaps, the exact amount of output tokens to buy.
+   * @param args.slippageBps - Slippage tolerance in basis points (e.g. 50 for 0.5%). The minimum output (or maximum input) is the quoted amount adjusted by this tolerance.
+   * @param args.maxPriceImpact - If specified, the swap is not submitted when the quoted price impact is larger than this, as a positive fraction (e.g. 0.01 for 1%).
+   * @param args.walletAddress - The wallet address executing the swap.
+   * @param options - Request options, such as an `AbortSignal` to cancel the quote and the submission.
+   * @returns The quote used, the slippage protection derived from it, and the pending transaction.
+   * @example
+   * ```typescript
+   * const { quote, transaction } = await gSwap.swaps.swapWithSlippage({
+   *   tokenIn: 'GALA|Unit|none|none',
+   *   tokenOut: 'GUSDC|Unit|none|none',
+   *   exactIn: '100',
+   *   slippageBps: 50, // 0.5%
+   *   maxPriceImpact: 0.02, // don't trade if the price would move by more than 2%
+   * });
+   *
+   * console.log(`Selling 100 GALA in the ${quote.feeTier} pool`);
+   * await transaction.wait();
+   * ```
+   */
+  async swapWithSlippage(
+    args: ({ exactIn: NumericAmount } | { exactOut: NumericAmount }) & {
+      tokenIn: GalaChainTokenClassKey | string;
+      tokenOut: GalaChainTokenClassKey | string;
+      slippageBps: number;
+      maxPriceImpact?: NumericAmount | undefined;
+      walletAddress?: string | undefined;
+    },
+    options?: RequestOptions,
+  ): Promise<SwapWithSlippageResult> {
+    const walletAddress = args.walletAddress ?? this.options?.walletAddress;
+
+    validateWalletAddress(walletAddress);
+
+    validateSlippageBps(args.slippageBps);
+
+    if (args.maxPriceImpact !== undefined) {
+      validatePriceImpact(args.maxPriceImpact, 'maxPriceImpact');
+    }
+
+    const quotingService = this.options?.quotingService;
+    if (!quotingService) {
+      throw new GSwapSDKError(
+        'This method requires a quoting service. Please use the swaps service of a GSwap instance.',
+        'QUOTING_NOT_CONFIGURED',
+      );
+    }
+
+    const quote =
+      'exactIn' in args
+        ? await quotingService.quoteExactInput(
+            args.tokenIn,
+            args.tokenOut,
+            args.exactIn,
+            undefined,
+            options,
+          )
+        : await quotingService.quoteExactOutput(
+            args.tokenIn,
+            args.tokenOut,
+            args.exactOut,
+            undefined,
+            options,
+          );
+
+    if (
+      args.maxPriceImpact !== undefined &&
+      quote.priceImpact.abs().isGreaterThan(args.maxPriceImpact)
+    ) {
+      throw GSwapSDKError.priceImpactTooHighError(
+        args.tokenIn,
+        args.tokenOut,
+        quote.priceImpact.abs(),
+        args.maxPriceImpact,
+      );
+    }
+
+    if ('exactIn' in args) {
+      const amountOutMinimum = getAmountOutMinimum(quote, args.slippageBps);
+
+      const transaction = await this.swap(
+        args.tokenIn,
+        args.tokenOut,
+        quote.feeTier,
+        { exactIn: args.exactIn, amountOutMinimum },
+        walletAddress,
+        { signal: options?.signal },
+      );
+
+      return { quote, amountOutMinimum, transaction };
+    }
+
+    const amountInMaximum = getAmountInMaximum(quote, args.slippageBps);
+
+    const transaction = await this.swap(
+      args.tokenIn,
+      args.tokenOut,
+      quote.feeTier,
+      { exactOut: args.exactOut, amountInMaximum },
+      walletAddress,
+      { signal: options?.signal },
+    );
+
+    return { quote, amountInMaximum, transaction };
+  }
+
+  /**
+   * Executes a multi-hop swap along a route returned by `quoteExactInputRoute()` or `quoteExactOutputRoute()`.
+   * All hops are submitted together as a single atomic transaction: if any hop fails, none of them are applied.
+   *
+   * The slippage protection you provide applies to the final hop (or, for exact output routes, the first hop).
+   * The amounts passed between hops are fixed when the transaction is signed, so every hop in between must fill at
+   * least as well as quoted: each one trades the full quoted output of the previous hop. If the price moves against
+   * you on one of them, the whole route fails, and you can quote it again. If a hop fills better than quoted, the
+   * surplus of the intermediate token stays in your wallet.
+   * @param route - The route to execute.
+   * @param amount - Slippage protection for the route.
+   * @param amount.amountOutMinimum - For routes quoted with `quoteExactInputRoute()`, the minimum amount of the output token to buy. The route's `inTokenAmount` will be sold.
+   * @param amount.amountInMaximum - For routes quoted with `quoteExactOutputRoute()`, the maximum amount of the input token to sell. The route's `outTokenAmount` will be bought.
+   * @param walletAddress - The wallet address executing the swap.
+   * @param options - Request options. With `dryRun`, the signed request is returned instead of being submitted.
+   * @returns Pending transaction, whose `wait()` resolves with the amounts swapped, or the signed request in dry-run mode.
+   * @example
+   * ```typescript
+   * const route = await gSwap.quoting.quoteExactInputRoute(
+   *   'SILK|Unit|none|none',
+   *   'GWETH|Unit|none|none',
+   *   '100',
+   * );
+   *
+   * const pendingTx = await gSwap.swaps.swapRoute(
+   *   route,
+   *   { amountOutMinimum: route.outTokenAmount.multipliedBy(0.98) }, // 2% slippage tolerance
+   *   'eth|123...abc', // your wallet address
+   * );
+   * ```
+   */
+  async swapRoute<TOptions extends BundlerRequestOptions | undefined = undefined>(
+    route: GetRouteQuoteResult,
+    amount: { amountOutMinimum: NumericAmount } | { amountInMaximum: NumericAmount },
+    walletAddress?: string,
+    options?: TOptions,
+  ): Promise<BundlerRequestResult<TOptions, SwapTransactionResult>> {
+    walletAddress = walletAddress ?? this.options?.walletAddress;
+
+    validateWalletAddress(walletAddress);
+
+    if (route.hops.length === 0) {
+      throw new GSwapSDKError('Invalid route: must have at least one hop', 'VALIDATION_ERROR', {
+        type: 'INVALID_ROUTE',
+        path: route.path,
+      });
+    }
+
+    route.hops.forEach((hop) => validateFee(hop.feeTier));
+
+    if ('amountOutMinimum' in amount) {
+      validateNumericAmount(amount.amountOutMinimum, 'amountOutMinimum');
+    } else {
+      validateNumericAmount(amount.amountInMaximum, 'amountInMaximum');
+    }
+
+    const hopAmounts =
+      'amountOutMinimum' in amount
+        ? this.getExactInputRouteHopAmounts(route, amount.amountOutMinimum)
+        : this.getExactOutputRouteHopAmounts(route, amount.amountInMaximum);
+
+    if (route.hops.length === 1) {
+      const hop = route.hops[0]!;
+      return this.swap(
+        hop.tokenIn,
+        hop.tokenOut,
+        hop.feeTier,
+        hopAmounts[0]!,
+        walletAddress,
+        options,
+      );
+    }
+
+    const operations: Array<{ method: string; dto: Record<string, unknown> }> = [];
+    const stringsInstructions = new Set<string>();
+
+    route.hops.forEach((hop, index) => {
+      const request = this.buildSwapRequest(
+        hop.tokenIn,
+        hop.tokenOut,
+        hop.feeTier,
+        hopAmounts[index]!,
+        walletAddress,
+      );
+
+      operations.push({ method: 'Swap', dto: request.toSign });
+      request.stringsInstructions.forEach((instruction) => stringsInstructions.add(instruction));
+    });
+
+    return this.bundlerService.sendBatchBundlerRequest(
+      operations,
+      [...stringsInstructions],
+      options,
+      decodeRouteSwapResult,
+    );
+  }
+
+  /**
+   * Executes an order split across several pools, as returned by `quoteExactInputSplit()`.
+   * All parts are submitted together as a single atomic transaction: if any part fails, none of them are applied.
+   * @param split - The split to execute.
+   * @param amount - Slippage protection for the order.
+   * @param amount.amountOutMinimum - The minimum total amount of the output token to buy. Each part's minimum is proportional to its share of the quoted output.
+   * @param walletAddress - The wallet address executing the swap.
+   * @param options - Request options. With `dryRun`, the signed request is returned instead of being submitted.
+   * @returns Pending transaction, whose `wait()` resolves with the amounts swapped, or the signed request in dry-run mode.
+   * @example
+   * ```typescript
+   * const split = await gSwap.quoting.quoteExactInputSplit(
+   *   'GALA|Unit|none|none',
+   *   'GUSDC|Unit|none|none',
+   *   '1000000',
+   * );
+   *
+   * const pendingTx = await gSwap.swaps.swapSplit(
+   *   split,
+   *   { amountOutMinimum: split.outTokenAmount.multipliedBy(0.99) }, // 1% slippage tolerance
+   *   'eth|123...abc', // your wallet address
+   * );
+   * ```
+   */
+  async swapSplit<TOptions extends BundlerRequestOptions | undefined = undefined>(
+    split: GetSplitQuoteResult,
+    amount: { amountOutMinimum: NumericAmount },
+    walletAddress?: string,
+    options?: TOptions,
+  ): Promise<BundlerRequestResult<TOptions, SwapTransactionResult>> {
+    walletAddress = walletAddress ?? this.options?.walletAddress;
+
+    validateWalletAddress(walletAddress);
+    validateNumericAmount(amount.amountOutMinimum, 'amountOutMinimum', true);
+
+    if (split.splits.length === 0) {
+      throw new GSwapSDKError('Invalid split: must have at least one part', 'VALIDATION_ERROR', {
+        type: 'INVALID_SPLIT',
+      });
+    }
+
+    const partAmounts = split.splits.map((quote) => ({
+      exactIn: quote.inTokenAmount,
+      amountOutMinimum: quote.outTokenAmount
+        .multipliedBy(amount.amountOutMinimum)
+        .dividedBy(split.outTokenAmount)
+        .decimalPlaces(quote.outTokenDecimals, BigNumber.ROUND_DOWN),
+    }));
+
+    if (split.splits.length === 1) {
+      return this.swap(
+        split.tokenIn,
+        split.tokenOut,
+        split.splits[0]!.feeTier,
+        partAmounts[0]!,
+        walletAddress,
+        options,
+      );
+    }
+
+    const operations: Array<{ method: string; dto: Record<string, unknown> }> = [];
+    const stringsInstructions = new Set<string>();
+
+    split.splits.forEach((quote, index) => {
+      const request = this.buildSwapRequest(
+        split.tokenIn,
+        split.tokenOut,
+        quote.feeTier,
+        partAmounts[index]!,
+        walletAddress,
+      );
+
+      operations.push({ method: 'Swap', dto: request.toSign });
+      request.stringsInstructions.forEach((instruction) => stringsInstructions.add(instruction));
+    });
+
+    return this.bundlerService.sendBatchBundlerRequest(
+      operations,
+      [...stringsInstructions],
+      options,
+      decodeSwapResult,
+    );
+  }
+
+  // A batch can't pass one hop's actual output on to the next, so each hop after the first sells
+  // the full quoted output of the previous hop, which must buy at least that much
+  private getExactInputRouteHopAmounts(
+    route: GetRouteQuoteResult,
+    amountOutMinimum: NumericAmount,
+  ) {
+    const finalHopIndex = route.hops.length - 1;
+
+    return route.hops.map((hop, index) => ({
+      exactIn: index === 0 ? route.inTokenAmount : route.hops[index - 1]!.outTokenAmount,
+      amountOutMinimum: index === finalHopIndex ? BigNumber(amountOutMinimum) : hop.outTokenAmount,
+    }));
+  }
+
+  // Each hop before the last buys exactly the quoted input of the next hop, which may sell at most that much
+  private getExactOutputRouteHopAmounts(
+    route: GetRouteQuoteResult,
+    amountInMaximum: NumericAmount,
+  ) {
+    const finalHopIndex = route.hops.length - 1;
+
+    return route.hops.map((hop, index) => ({
+      exactOut:
+        index === finalHopIndex ? route.outTokenAmount : route.hops[index + 1]!.inTokenAmount,
+      amountInMaximum: index === 0 ? BigNumber(amountInMaximum) : hop.inTokenAmount,
+    }));
+  }
+
+  private buildSwapRequest(
+    tokenIn: GalaChainTokenClassKey | string,
+    tokenOut: GalaChainTokenClassKey | string,
+    fee: number,
+    amount:
+      | {
+          exactIn: NumericAmount;
+          amountOutMinimum?: NumericAmount;
+          limitPrice?: NumericAmount;
+        }
+      | {
+          exactOut: NumericAmount;
+          amountInMaximum?: NumericAmount;
+          limitPrice?: NumericAmount;
+        },
+    walletAddress: string,
+  ) {
     if ('exactIn' in amount) {
       validateNumericAmount(amount.exactIn, 'exactIn');
       if (amount.amountOutMinimum !== undefined) {
@@ -76,21 +484,30 @@ export class Swaps {
       }
     }
 
-    const ordering = getTokenOrdering(tokenIn, tokenOut, false);
+    if (amount.limitPrice !== undefined) {
+      validateNumericAmount(amount.limitPrice, 'limitPrice');
+    }
+
+    const ordering = getTokenOrdering(
+      parseTokenClassKey(tokenIn),
+      parseTokenClassKey(tokenOut),
+      false,
+    );
     const zeroForOne = stringifyTokenClassKey(tokenIn) === stringifyTokenClassKey(ordering.token0);
 
     const rawAmount =
       'exactIn' in amount
         ? BigNumber(amount.exactIn).toFixed()
         : BigNumber(amount.exactOut).multipliedBy(-1).toFixed();
+    // With a limit price, an exact output swap may stop before buying the whole amount
     const rawAmountOutMinimum =
       'exactIn' in amount
         ? amount.amountOutMinimum?.toString()
           ? BigNumber(amount.amountOutMinimum).multipliedBy(-1).toFixed()
           : undefined
-        : BigNumber(amount.exactOut ?? 0)
-            .multipliedBy(-1)
-            .toFixed();
+        : amount.limitPrice !== undefined
+          ? undefined
+          : BigNumber(amount.exactOut).multipliedBy(-1).toFixed();
     const rawAmountInMaximum =
       'exactIn' in amount
         ? BigNumber(amount.exactIn).toFixed()
@@ -98,13 +515,27 @@ export class Swaps {
           ? BigNumber(amount.amountInMaximum).toFixed()
           : undefined;
 
+    // Without a limit price, the swap may move the price as far as it needs to
+    const sqrtPriceLimit =
+      amount.limitPrice !== undefined
+        ? BigNumber.min(
+            BigNumber.max(
+              getSqrtPriceLimitForPrice(BigNumber(amount.limitPrice), zeroForOne),
+              MIN_SQRT_PRICE_LIMIT,
+            ),
+            MAX_SQRT_PRICE_LIMIT,
+          ).toFixed()
+        : ordering.zeroForOne
+          ? MIN_SQRT_PRICE_LIMIT
+          : MAX_SQRT_PRICE_LIMIT;
+
     const toSign = {
       token0: parseTokenClassKey(ordering.token0),
       token1: parseTokenClassKey(ordering.token1),
       fee: fee,
       amount: rawAmount,
       zeroForOne,
-      sqrtPriceLimit: ordering.zeroForOne ? MIN_SQRT_PRICE_LIMIT : MAX_SQRT_PRICE_LIMIT,
+      sqrtPriceLimit,
       recipient: walletAddress,
       amountOutMinimum: rawAmountOutMinimum,
       amountInMaximum: rawAmountInMaximum,
@@ -127,6 +558,6 @@ export class Swaps {
       tokenBalance1Pool,
     ];
 
-    return this.bundlerService.sendBundlerRequest('Swap', toSign, stringsInstructions);
+    return { toSign, stringsInstructions };
   }
 }
@@ -0,0 +1,458 @@
+import BigNumber from 'bignumber.js';
+import { EventEmitter } from 'events';
+import { NumericAmount } from '../types/amounts.js';
+import type { GetQuoteResult, SwapTransactionResult } from '../types/sdk_results.js';
+import { systemTimers, Timers } from '../types/timers.js';
+import type { GalaChainTokenClassKey } from '../types/token.js';
+import { getAmountOutMinimum } from '../utils/slippage.js';
+import {
+  validateNumericAmount,
+  validatePriceImpact,
+  validateSlippageBps,
+} from '../utils/validation.js';
+import { GSwapSDKError } from './gswap_sdk_error.js';
+import type { PendingTransaction } from './pending_transaction.js';
+import type { Quoting } from './quoting.js';
+import type { Swaps } from './swaps.js';
+
+/**
+ * A large exact input swap to execute in slices over a time window.
+ */
+export interface TwapOrder {
+  /** The input token to sell */
+  tokenIn: GalaChainTokenClassKey | string;
+  /** The output token to buy */
+  tokenOut: GalaChainTokenClassKey | string;
+  /** The total amount of input tokens to sell */
+  totalAmount: NumericAmount;
+  /** The number of child swaps to split the total amount into */
+  slices: number;
+  /** The time window to spread the child swaps over, in milliseconds. The first child swap executes immediately. */
+  durationMs: number;
+  /** Slippage tolerance of each child swap, in basis points (e.g. 50 for 0.5%) */
+  slippageBps: number;
+  /** The largest price impact a child swap may have, as a positive fraction (e.g. 0.01 for 1%) */
+  maxPriceImpact?: NumericAmount | undefined;
+  /** How far the pool price may drift from its price at the first child swap, as a positive fraction (e.g. 0.05 for 5%) */
+  maxPriceDrift?: NumericAmount | undefined;
+  /**
+   * What to do when a child swap is past `maxPriceImpact` or `maxPriceDrift`.
+   * `skip` (the default) drops the child swap, so less than the total amount is sold.
+   * `pause` re-quotes the child swap at every interval until it is within the limits again, extending the job.
+   * If it stays past the limits for longer than `maxPauseMs`, it and the remaining child swaps are skipped.
+   */
+  onLimitExceeded?: 'skip' | 'pause' | undefined;
+  /** How long a child swap may stay paused, in milliseconds. Defaults to `durationMs`. */
+  maxPauseMs?: number | undefined;
+  /** The wallet address executing the swaps */
+  walletAddress?: string | undefined;
+}
+
+export type TwapExecutionStatus = 'pending' | 'running' | 'paused' | 'completed' | 'cancelled';
+
+/**
+ * The outcome of one child swap of a TWAP order.
+ */
+export interface TwapSliceResult {
+  /** Index of the child swap, starting at 0 */
+  index: number;
+  /** `submitted` if the swap was sent to the bundler, `skipped` if it was past a limit, `failed` if quoting or submitting threw */
+  status: 'submitted' | 'skipped' | 'failed';
+  /** The amount of input tokens the child swap sells */
+  inTokenAmount: BigNumber;
+  /** The quote the child swap was based on */
+  quote?: GetQuoteResult | undefined;
+  /** The minimum amount of output tokens the child swap accepts */
+  amountOutMinimum?: BigNumber | undefined;
+  /** The submitted swap transaction */
+  transaction?: PendingTransaction<SwapTransactionResult> | undefined;
+  /** Why the child swap was skipped */
+  reason?: TwapLimitReason | undefined;
+  /** The error that made the child swap fail */
+  error?: unknown;
+}
+
+export type TwapLimitReason = 'PRICE_IMPACT_TOO_HIGH' | 'PRICE_DRIFT_TOO_HIGH';
+
+/**
+ * Progress of a TWAP order, emitted after every child swap.
+ */
+export interface TwapProgress {
+  /** The child swap that was just processed */
+  slice: TwapSliceResult;
+  /** The number of child swaps processed so far */
+  processedSlices: number;
+  totalSlices: number;
+  /** The amount of input tokens submitted so far */
+  submittedInTokenAmount: BigNumber;
+}
+
+/**
+ * Summary of a finished (or cancelled) TWAP order.
+ */
+export interface TwapExecutionSummary {
+  status: 'completed' | 'cancelled';
+  slices: TwapSliceResult[];
+  /** The amount of input tokens submitted across all child swaps */
+  submittedInTokenAmount: BigNumber;
+  /**
+   * The amount of output tokens quoted across all submitted child swaps. This is not the amount actually received,
+   * which can be anywhere down to each child swap's `amountOutMinimum`; wait for the child swaps' transactions for that.
+   */
+  quotedOutTokenAmount: BigNumber;
+}
+
+/**
+ * Executes a large exact input swap as a series of smaller swaps spread over a time window
+ * (a time-weighted average price order), to reduce its price impact.
+ * Each child swap is re-quoted right before it is submitted, and skipped or paused when it is past the price limits.
+ *
+ * Events:
+ * - `progress` ({@link TwapProgress}): after every child swap, whether it was submitted, skipped or failed.
+ * - `paused` (`{ index, reason }`): when a child swap is past a limit and `onLimitExceeded` is `pause`.
+ * - `resumed` (`{ index }`): when a paused child swap is within the limits again.
+ * - `completed` / `cancelled` ({@link TwapExecutionSummary}): when the job ends.
+ *
+ * @example
+ * ```typescript
+ * const twap = new TwapExecutor(gSwap.quoting, gSwap.swaps, {
+ *   tokenIn: 'GALA|Unit|none|none',
+ *   tokenOut: 'GUSDC|Unit|none|none',
+ *   totalAmount: '1000000',
+ *   slices: 24,
+ *   durationMs: 24 * 60 * 60 * 1000, // one child swap per hour
+ *   slippageBps: 50,
+ *   maxPriceImpact: 0.005,
+ * });
+ *
+ * twap.on('progress', (progress) => {
+ *   console.log(`${progress.processedSlices}/${progress.totalSlices}: ${progress.slice.status}`);
+ * });
+ *
+ * const summary = await twap.start();
+ * console.log(`Sold ${summary.submittedInTokenAmount} GALA`);
+ * ```
+ */
+export class TwapExecutor extends EventEmitter {
+  private readonly timers: Timers;
+  private readonly totalAmount: BigNumber;
+  private readonly sliceResults: TwapSliceResult[] = [];
+  private executionStatus: TwapExecutionStatus = 'pending';
+  private executionPromise?: Promise<TwapExecutionSummary> | undefined;
+  private cancelWait?: (() => void) | undefined;
+  private inTokenDecimals?: number | undefined;
+
+  constructor(
+    private readonly quotingService: Quoting,
+    private readonly swapsService: Swaps,
+    private readonly order: TwapOrder,
+    options?: {
+      timers?: Timers | undefined;
+    },
+  ) {
+    super();
+
+    validateNumericAmount(order.totalAmount, 'totalAmount');
+    validateSlippageBps(order.slippageBps);
+
+    if (!Number.isInteger(order.slices) || order.slices < 1) {
+      throw new GSwapSDKError('Invalid slices: must be a positive integer', 'VALIDATION_ERROR', {
+        type: 'INVALID_SLICES',
+        value: order.slices,
+      });
+    }
+
+    if (!Number.isFinite(order.durationMs) || order.durationMs < 0) {
+      throw new GSwapSDKError(
+        'Invalid durationMs: must be a non-negative number',
+        'VALIDATION_ERROR',
+        {
+          type: 'INVALID_DURATION',
+          value: order.durationMs,
+        },
+      );
+    }
+
+    if (
+      order.maxPauseMs !== undefined &&
+      (!Number.isFinite(order.maxPauseMs) || order.maxPauseMs < 0)
+    ) {
+      throw new GSwapSDKError(
+        'Invalid maxPauseMs: must be a non-negative number',
+        'VALIDATION_ERROR',
+        {
+          type: 'INVALID_MAX_PAUSE',
+          value: order.maxPauseMs,
+        },
+      );
+    }
+
+    if (order.maxPriceImpact !== undefined) {
+      validatePriceImpact(order.maxPriceImpact, 'maxPriceImpact');
+    }
+
+    if (order.maxPriceDrift !== undefined) {
+      validatePriceImpact(order.maxPriceDrift, 'maxPriceDrift');
+    }
+
+    this.timers = options?.timers ?? systemTimers;
+    this.totalAmount = BigNumber(order.totalAmount);
+  }
+
+  /**
+   * The current status of the job.
+   */
+  get status(): TwapExecutionStatus {
+    return this.executionStatus;
+  }
+
+  /**
+   * The child swaps processed so far.
+   */
+  get slices(): readonly TwapSliceResult[] {
+    return this.sliceResults;
+  }
+
+  /**
+   * Starts executing the order. Calling this again returns the same promise.
+   * @returns A summary of the child swaps, once the job completes or is cancelled.
+   */
+  start(): Promise<TwapExecutionSummary> {
+    if (!this.executionPromise) {
+      this.executionPromise = this.run();
+    }
+
+    return this.executionPromise;
+  }
+
+  /**
+   * Cancels the job. Child swaps that were already submitted are not affected,
+   * and a child swap that is being quoted or submitted finishes first.
+   */
+  cancel(): void {
+    if (this.executionStatus === 'completed' || this.executionStatus === 'cancelled') {
+      return;
+    }
+
+    this.executionStatus = 'cancelled';
+    this.cancelWait?.();
+  }
+
+  private async run(): Promise<TwapExecutionSummary> {
+    if (this.executionStatus === 'pending') {
+      this.executionStatus = 'running';
+    }
+
+    const intervalMs = this.order.durationMs / this.order.slices;
+    const maxPauseMs = this.order.maxPauseMs ?? this.order.durationMs;
+    let nextRunAt = this.timers.now();
+    let referencePrice: BigNumber | undefined;
+    let pausedAt = 0;
+    let index = 0;
+
+    while (index < this.order.slices) {
+      await this.sleepUntil(nextRunAt);
+      nextRunAt += intervalMs;
+
+      if (this.executionStatus === 'cancelled') {
+        break;
+      }
+
+      let result: TwapSliceResult;
+
+      try {
+        const { amount, quote } = await this.quoteSlice(index);
+        referencePrice = referencePrice ?? quote.currentPrice;
+
+        const reason = this.getLimitReason(quote, referencePrice);
+
+        if (reason && this.order.onLimitExceeded === 'pause') {
+          if (this.executionStatus === 'running') {
+            this.executionStatus = 'paused';
+            pausedAt = this.timers.now();
+            this.emit('paused', { index, reason });
+          }
+
+          if (this.timers.now() - pausedAt < maxPauseMs) {
+            continue;
+          }
+
+          // Paused for too long, so give up on the rest of the order
+          this.addSliceResult({ index, status: 'skipped', inTokenAmount: amount, quote, reason });
+          for (index++; index < this.order.slices; index++) {
+            this.addSliceResult({
+              index,
+              status: 'skipped',
+              inTokenAmount: this.getSliceAmount(index),
+              reason,
+            });
+          }
+
+          break;
+        }
+
+        if (this.executionStatus === 'paused') {
+          this.executionStatus = 'running';
+          this.emit('resumed', { index });
+        }
+
+        result = reason
+          ? { index, status: 'skipped', inTokenAmount: amount, quote, reason }
+          : await this.submitSlice(index, amount, quote);
+      } catch (error) {
+        result = {
+          index,
+          status: 'failed',
+          inTokenAmount: this.getSliceAmount(index),
+          error,
+        };
+      }
+
+      this.addSliceResult(result);
+      index++;
+    }
+
+    const summary: TwapExecutionSummary = {
+      status: this.executionStatus === 'cancelled' ? 'cancelled' : 'completed',
+      slices: [...this.sliceResults],
+      submittedInTokenAmount: this.getSubmittedInTokenAmount(),
+      quotedOutTokenAmount: this.sliceResults
+        .filter((slice) => slice.status === 'submitted')
+        .reduce((sum, slice) => sum.plus(slice.quote?.outTokenAmount ?? 0), BigNumber(0)),
+    };
+
+    this.executionStatus = summary.status;
+    this.emit(summary.status, summary);
+
+    return summary;
+  }
+
+  private addSliceResult(result: TwapSliceResult): void {
+    this.sliceResults.push(result);
+
+    this.emit('progress', {
+      slice: result,
+      processedSlices: this.sliceResults.length,
+      totalSlices: this.order.slices,
+      submittedInTokenAmount: this.getSubmittedInTokenAmount(),
+    } satisfies TwapProgress);
+  }
+
+  private async quoteSlice(index: number) {
+    let amount = this.getSliceAmount(index);
+    let quote = await this.quotingService.quoteExactInput(
+      this.order.tokenIn,
+      this.order.tokenOut,
+      amount,
+    );
+
+    if (this.inTokenDecimals === undefined) {
+      // The first quote tells us how precisely the total amount can be split
+      this.inTokenDecimals = quote.inTokenDecimals;
+
+      const roundedAmount = this.getSliceAmount(index);
+      if (!roundedAmount.isEqualTo(amount)) {
+        amount = roundedAmount;
+        quote = await this.quotingService.quoteExactInput(
+          this.order.tokenIn,
+          this.order.tokenOut,
+          amount,
+        );
+      }
+    }
+
+    return { amount, quote };
+  }
+
+  private async submitSlice(
+    index: number,
+    amount: BigNumber,
+    quote: GetQuoteResult,
+  ): Promise<TwapSliceResult> {
+    const amountOutMinimum = getAmountOutMinimum(quote, this.order.slippageBps);
+
+    const transaction = await this.swapsService.swap(
+      this.order.tokenIn,
+      this.order.tokenOut,
+      quote.feeTier,
+      { exactIn: amount, amountOutMinimum },
+      this.order.walletAddress,
+    );
+
+    return {
+      index,
+      status: 'submitted',
+      inTokenAmount: amount,
+      quote,
+      amountOutMinimum,
+      transaction,
+    };
+  }
+
+  private getLimitReason(
+    quote: GetQuoteResult,
+    referencePrice: BigNumber,
+  ): TwapLimitReason | undefined {
+    if (
+      this.order.maxPriceImpact !== undefined &&
+      quote.priceImpact.abs().isGreaterThan(this.order.maxPriceImpact)
+    ) {
+      return 'PRICE_IMPACT_TOO_HIGH';
+    }
+
+    if (
+      this.order.maxPriceDrift !== undefined &&
+      quote.currentPrice
+        .dividedBy(referencePrice)
+        .minus(1)
+        .abs()
+        .isGreaterThan(this.order.maxPriceDrift)
+    ) {
+      return 'PRICE_DRIFT_TOO_HIGH';
+    }
+
+    return undefined;
+  }
+
+  /**
+   * The amount of a child swap. Slices are split on cumulative boundaries so that,
+   * once rounded to the token's decimals, they add up to exactly the total amount.
+   */
+  private getSliceAmount(index: number): BigNumber {
+    const getBoundary = (sliceCount: number) => {
+      const boundary = this.totalAmount.multipliedBy(sliceCount).dividedBy(this.order.slices);
+      return this.inTokenDecimals === undefined
+        ? boundary
+        : boundary.decimalPlaces(this.inTokenDecimals, BigNumber.ROUND_DOWN);
+    };
+
+    return getBoundary(index + 1).minus(getBoundary(index));
+  }
+
+  private getSubmittedInTokenAmount(): BigNumber {
+    return this.sliceResults
+      .filter((slice) => slice.status === 'submitted')
+      .reduce((sum, slice) => sum.plus(slice.inTokenAmount), BigNumber(0));
+  }
+
+  private sleepUntil(time: number): Promise<void> {
+    const delayMs = time - this.timers.now();
+
+    if (delayMs <= 0 || this.executionStatus === 'cancelled') {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve) => {
+      const handle = this.timers.setTimeout(() => {
+        this.cancelWait = undefined;
+        resolve();
+      }, delayMs);
+
+      this.cancelWait = () => {
+        this.timers.clearTimeout(handle);
+        this.cancelWait = undefined;
+        resolve();
+      };
+    });
+  }
+}
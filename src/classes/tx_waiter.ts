@@ -1,8 +1,40 @@
+import { abortable } from '../utils/abort.js';
+import type { BundlerResponse } from './event_socket_client.js';
 import { GSwapSDKError } from './gswap_sdk_error.js';
 
+export type TransactionStatusCheck = () => Promise<BundlerResponse | undefined>;
+
+/**
+ * The status of a transaction as seen by the event socket: still pending, or its outcome if it
+ * completed recently.
+ */
+export type TransactionStatus =
+  | { status: 'PENDING'; txId: string }
+  | {
+      status: 'PROCESSED';
+      txId: string;
+      transactionHash: string;
+      Data: Record<string, unknown>;
+    }
+  | {
+      status: 'FAILED';
+      txId: string;
+      transactionHash: string | undefined;
+      error: GSwapSDKError;
+    };
+
+type CompletedTransaction =
+  | { status: 'PROCESSED'; transactionHash: string; Data: Record<string, unknown> }
+  | { status: 'FAILED'; detail: Record<string, unknown> };
+
 export class TransactionWaiter {
   private enabled = false;
 
+  // Outcomes of recently completed transactions, oldest first, so that late waits still get them
+  private readonly completedTransactions = new Map<string, CompletedTransaction>();
+
+  constructor(private readonly maxCompletedTransactions = 1000) {}
+
   private readonly promiseInfoForTxId = new Map<
     string,
     {
@@ -14,7 +46,10 @@ export class TransactionWaiter {
       }) => void;
       reject: (error: GSwapSDKError) => void;
       waited: boolean;
+      // The number of waits that haven't been aborted
+      waiters: number;
       timeoutId: number;
+      checkStatus?: TransactionStatusCheck | undefined;
     }
   >();
 
@@ -23,18 +58,22 @@ export class TransactionWaiter {
     if (!enabled) {
       for (const [txId, promiseInfo] of this.promiseInfoForTxId.entries()) {
         clearTimeout(promiseInfo.timeoutId);
-        promiseInfo.reject(
-          GSwapSDKError.transactionWaitFailedError(txId, {
-            message: 'Transaction waiter disabled',
-          }),
-        );
+        if (promiseInfo.waited) {
+          promiseInfo.reject(
+            GSwapSDKError.transactionWaitFailedError(txId, {
+              message: 'Transaction waiter disabled',
+            }),
+          );
+        } else {
+          promiseInfo.resolve({ txId, transactionHash: txId, Data: {} });
+        }
       }
 
       this.promiseInfoForTxId.clear();
     }
   }
 
-  registerTxId(txId: string, timeoutMs: number): void {
+  registerTxId(txId: string, timeoutMs: number, checkStatus?: TransactionStatusCheck): void {
     if (this.promiseInfoForTxId.has(txId)) {
       throw new GSwapSDKError(
         `Transaction ID is already registered`,
@@ -83,10 +122,75 @@ export class TransactionWaiter {
       reject: reject!,
       timeoutId: timeoutId as unknown as number,
       waited: false,
+      waiters: 0,
+      checkStatus,
     });
   }
 
-  wait(txId: string) {
+  isRegistered(txId: string): boolean {
+    return this.promiseInfoForTxId.has(txId);
+  }
+
+  /**
+   * Gets the status checks of the transactions that are still pending, to find out what happened to them
+   * while events could not be received.
+   */
+  getPendingStatusChecks(): Array<[string, TransactionStatusCheck]> {
+    return [...this.promiseInfoForTxId.entries()].flatMap(([txId, promiseInfo]) =>
+      promiseInfo.checkStatus
+        ? [[txId, promiseInfo.checkStatus] as [string, TransactionStatusCheck]]
+        : [],
+    );
+  }
+
+  /**
+   * Gets the status of a transaction that is pending or completed recently.
+   * @param txId - The transaction ID.
+   * @returns The status, or `undefined` if the transaction isn't known.
+   */
+  getStatus(txId: string): TransactionStatus | undefined {
+    if (this.promiseInfoForTxId.has(txId)) {
+      return { status: 'PENDING', txId };
+    }
+
+    const completed = this.completedTransactions.get(txId);
+    if (!completed) {
+      return undefined;
+    }
+
+    if (completed.status === 'PROCESSED') {
+      return { txId, ...completed };
+    }
+
+    const error = GSwapSDKError.transactionWaitFailedError(txId, completed.detail);
+    return {
+      status: 'FAILED',
+      txId,
+      transactionHash: error.details?.transactionHash as string | undefined,
+      error,
+    };
+  }
+
+  /**
+   * Waits for a transaction to complete.
+   * @param signal - Stops this wait when aborted, rejecting it with the `ABORTED` error. Other waits for the
+   * transaction are not affected; once none are left, the transaction is unregistered and its timer cleared.
+   */
+  wait(
+    txId: string,
+    signal?: AbortSignal,
+  ): Promise<{ txId: string; transactionHash: string; Data: Record<string, unknown> }> {
+    const status = this.getStatus(txId);
+    if (status?.status === 'PROCESSED') {
+      return Promise.resolve({
+        txId,
+        transactionHash: status.transactionHash,
+        Data: status.Data,
+      });
+    } else if (status?.status === 'FAILED') {
+      return Promise.reject(status.error);
+    }
+
     const promise = this.promiseInfoForTxId.get(txId);
     if (!promise) {
       throw new GSwapSDKError(
@@ -99,7 +203,8 @@ export class TransactionWaiter {
     }
 
     promise.waited = true;
-    return promise.promise;
+    promise.waiters++;
+    return abortable(promise.promise, signal, { txId }, () => this.cancel(txId, signal!.reason));
   }
 
   notifySuccess(
@@ -120,6 +225,11 @@ export class TransactionWaiter {
     });
 
     this.promiseInfoForTxId.delete(txId);
+    this.addCompletedTransaction(txId, {
+      status: 'PROCESSED',
+      transactionHash: data.transactionId,
+      Data: data.Data,
+    });
   }
 
   notifyFailure(txId: string, detail: Record<string, unknown>): void {
@@ -137,5 +247,30 @@ export class TransactionWaiter {
     }
 
     this.promiseInfoForTxId.delete(txId);
+    this.addCompletedTransaction(txId, { status: 'FAILED', detail });
+  }
+
+  private cancel(txId: string, reason: unknown): void {
+    const promiseInfo = this.promiseInfoForTxId.get(txId);
+    if (!promiseInfo || --promiseInfo.waiters > 0) {
+      return;
+    }
+
+    clearTimeout(promiseInfo.timeoutId);
+    promiseInfo.reject(GSwapSDKError.abortedError(reason, { txId }));
+    this.promiseInfoForTxId.delete(txId);
+  }
+
+  private addCompletedTransaction(txId: string, completed: CompletedTransaction): void {
+    this.completedTransactions.delete(txId);
+    this.completedTransactions.set(txId, completed);
+
+    for (const oldestTxId of this.completedTransactions.keys()) {
+      if (this.completedTransactions.size <= this.maxCompletedTransactions) {
+        break;
+      }
+
+      this.completedTransactions.delete(oldestTxId);
+    }
   }
 }
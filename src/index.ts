@@ -1,19 +1,28 @@
 export * from './classes/assets.js';
 export * from './classes/bundler.js';
+export * from './classes/dca_scheduler.js';
 export * from './classes/event_socket_client.js';
 export * from './classes/events.js';
 export * from './classes/gswap.js';
 export * from './classes/gswap_sdk_error.js';
 export * from './classes/pending_transaction.js';
+export * from './classes/pool_snapshot.js';
+export * from './classes/pool_subscription.js';
 export * from './classes/pools.js';
 export * from './classes/positions.js';
 export * from './classes/quoting.js';
 export * from './classes/signers.js';
 export * from './classes/swaps.js';
+export * from './classes/twap_executor.js';
 export * from './types/amounts.js';
 export * from './types/api_responses.js';
 export * from './types/fees.js';
+export * from './types/http_middleware.js';
+export * from './types/request_options.js';
+export * from './types/retry_policy.js';
 export * from './types/sdk_results.js';
+export * from './types/timers.js';
 export * from './types/token.js';
 export * from './utils/token.js';
+export * from './utils/transaction_results.js';
 export * from './utils/validation.js';
@@ -78,3 +78,9 @@ export interface TransactionPendingResponse {
   message: string;
   error: boolean;
 }
+
+export interface TransactionStatusRawResponse {
+  status: string;
+  transactionHash?: string | undefined;
+  data?: Record<string, unknown> & { transactionId?: string | undefined };
+}
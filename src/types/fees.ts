@@ -9,3 +9,23 @@ export enum FEE_TIER {
   /** 1.0% fee tier */
   PERCENT_01_00 = 10000,
 }
+
+/**
+ * A pool fee tier and the tick spacing of pools that use it.
+ */
+export interface FeeTierConfig {
+  /** Fee in hundredths of a basis point (e.g., 500 for 0.05%) */
+  fee: number;
+  /** Tick spacing of pools with this fee */
+  tickSpacing: number;
+}
+
+/**
+ * The fee tiers the SDK checks by default. Pass your own list to the {@link GSwap} constructor
+ * (option `feeTiers`) to use fee tiers that were added on-chain after this version was released.
+ */
+export const DEFAULT_FEE_TIERS: FeeTierConfig[] = [
+  { fee: FEE_TIER.PERCENT_00_05, tickSpacing: 10 },
+  { fee: FEE_TIER.PERCENT_00_30, tickSpacing: 60 },
+  { fee: FEE_TIER.PERCENT_01_00, tickSpacing: 200 },
+];
@@ -0,0 +1,43 @@
+/**
+ * A request on its way to the network, as seen by {@link HttpMiddleware}.
+ */
+export interface HttpRequestContext {
+  method: 'POST' | 'GET';
+  /** The full URL, including query parameters. Change it to send the request elsewhere, such as through a proxy. */
+  url: string;
+  /** The endpoint's path relative to its base URL, without query parameters (e.g. `/api/asset/dexv3-contract/GetPoolData`) */
+  endpoint: string;
+  /** The request headers. `Content-Type` and `User-Agent` are set by default. */
+  headers: Record<string, string>;
+  /** The request body, before it is serialized to JSON */
+  body?: unknown;
+  /** The attempt number, starting at 1. Failed requests may be retried, see {@link RetryPolicy}. */
+  attempt: number;
+}
+
+/**
+ * A response on its way back from the network, as seen by {@link HttpMiddleware}.
+ */
+export interface HttpResponseContext {
+  status: number;
+  ok: boolean;
+  headers?: { get(name: string): string | null } | undefined;
+  /** The parsed JSON body. For failed responses, the body text if it isn't JSON. */
+  body: unknown;
+}
+
+/**
+ * Wraps every HTTP request the SDK makes, for example to add authentication headers, log, collect metrics,
+ * or inspect responses. Call `next` with the (possibly modified) request to pass it on, and return the response,
+ * or throw to fail the request. Middleware runs in the order it was added, for each attempt of a request.
+ *
+ * @example
+ * ```typescript
+ * const apiKey: HttpMiddleware = (request, next) =>
+ *   next({ ...request, headers: { ...request.headers, 'X-API-Key': 'my-api-key' } });
+ * ```
+ */
+export type HttpMiddleware = (
+  request: HttpRequestContext,
+  next: (request: HttpRequestContext) => Promise<HttpResponseContext>,
+) => Promise<HttpResponseContext>;
@@ -5,6 +5,8 @@ export interface HTTPResponse {
   status: FetchReturnValue['status'];
   json: FetchReturnValue['json'];
   text: FetchReturnValue['text'];
+  /** Used to read the `Retry-After` header of failed responses, if provided */
+  headers?: { get(name: string): string | null } | undefined;
 }
 
 export type HttpRequestor = (
@@ -0,0 +1,10 @@
+/**
+ * Options accepted by every method that makes network requests or waits.
+ */
+export interface RequestOptions {
+  /**
+   * Cancels the operation when aborted. The pending call rejects with a {@link GSwapSDKError}
+   * with the code `ABORTED`.
+   */
+  signal?: AbortSignal | undefined;
+}
@@ -0,0 +1,25 @@
+import { Timers } from './timers.js';
+
+/**
+ * How to retry requests that fail because of a temporary problem, such as the gateway being under load.
+ *
+ * Failed requests are retried with exponential backoff. When the response has a `Retry-After` header, it is
+ * honored instead. Requests that may already have been processed when they failed, such as bundler submissions,
+ * are only retried when the server turned them away with `429 Too Many Requests`.
+ */
+export interface RetryPolicy {
+  /** How many times to send a request, including the first attempt. Defaults to 3. Set to 1 to disable retries. */
+  maxAttempts?: number | undefined;
+  /** Delay before the first retry, in milliseconds. It doubles with each retry. Defaults to 500 milliseconds. */
+  initialDelayMs?: number | undefined;
+  /** Longest delay between two attempts, in milliseconds. Defaults to 10,000 milliseconds. */
+  maxDelayMs?: number | undefined;
+  /** Whether to pick each delay at random between half and all of the backoff delay, so that clients don't retry in lockstep. Defaults to true. */
+  jitter?: boolean | undefined;
+  /** The HTTP statuses to retry. Defaults to 408, 429, 500, 502, 503 and 504. */
+  retryableStatuses?: number[] | undefined;
+  /** Longest `Retry-After` to wait for, in milliseconds. Responses asking to wait longer are not retried. Defaults to 60,000 milliseconds. */
+  maxRetryAfterMs?: number | undefined;
+  /** Timers used to wait between attempts. Defaults to the system timers. */
+  timers?: Timers | undefined;
+}
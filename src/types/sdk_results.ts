@@ -19,6 +19,10 @@ export interface GetQuoteResult {
   inTokenAmount: BigNumber;
   /** Amount of the output token (the token being bought) */
   outTokenAmount: BigNumber;
+  /** Number of decimal places supported by the input token */
+  inTokenDecimals: number;
+  /** Number of decimal places supported by the output token */
+  outTokenDecimals: number;
   /** Current price of the pool (how many output tokens per input token) */
   currentPrice: Price;
   /** New price of the pool after the trade (how many output tokens per input token) */
@@ -27,6 +31,80 @@ export interface GetQuoteResult {
   priceImpact: BigNumber;
   /** Fee tier of the pool used for this quote (e.g., 500 for 0.05%, 3000 for 0.3%) */
   feeTier: number;
+  /** Liquidity provider fee charged on the input, in the input token (included in inTokenAmount) */
+  feeAmount: BigNumber;
+  /** Average price of the trade, fees included (how many output tokens per input token) */
+  executionPrice: Price;
+  /** Difference between the execution price and the current (spot) price (e.g., -0.012 for 1.2% below spot) */
+  executionPriceImpact: BigNumber;
+  /** Number of initialized ticks the trade crosses */
+  ticksCrossed: number;
+  /** Price ranges of constant liquidity the trade moves through, in order */
+  liquiditySegments: LiquiditySegment[];
+}
+
+/**
+ * A price range of constant liquidity that a quoted trade moves through.
+ * Amounts are estimated locally from the pool's tick data and are not rounded to token decimals.
+ */
+export interface LiquiditySegment {
+  /** Square root price of the pool where the trade enters this range */
+  sqrtPriceStart: SqrtPrice;
+  /** Square root price of the pool where the trade leaves this range */
+  sqrtPriceEnd: SqrtPrice;
+  /** Liquidity active in this range */
+  liquidity: BigNumber;
+  /** Amount of the input token sold in this range, including fees */
+  inTokenAmount: BigNumber;
+  /** Amount of the output token bought in this range */
+  outTokenAmount: BigNumber;
+  /** Liquidity provider fee charged in this range, in the input token */
+  feeAmount: BigNumber;
+}
+
+/**
+ * A single hop of a multi-hop route quote.
+ * Contains the quote for the pool used by this hop.
+ */
+export interface RouteQuoteHop extends GetQuoteResult {
+  /** The token being sold in this hop */
+  tokenIn: string;
+  /** The token being bought in this hop */
+  tokenOut: string;
+}
+
+/**
+ * Result from getting a price quote for a multi-hop route.
+ * Contains the tokens along the route and a quote for each hop.
+ */
+export interface GetRouteQuoteResult {
+  /** Tokens along the route, starting with the input token and ending with the output token */
+  path: string[];
+  /** Quotes for each hop of the route, in order */
+  hops: RouteQuoteHop[];
+  /** Amount of the input token (the token being sold) */
+  inTokenAmount: BigNumber;
+  /** Amount of the output token (the token being bought) */
+  outTokenAmount: BigNumber;
+  /** Total price impact of the route, compounded across all hops (e.g., -0.01 for a 1% decrease) */
+  priceImpact: BigNumber;
+}
+
+/**
+ * Result from getting a price quote for an order split across several pools of the same token pair.
+ * Contains a quote for each pool the order is split across.
+ */
+export interface GetSplitQuoteResult {
+  /** The token being sold */
+  tokenIn: string;
+  /** The token being bought */
+  tokenOut: string;
+  /** Quotes for each pool used by the split, one per fee tier */
+  splits: GetQuoteResult[];
+  /** Total amount of the input token (the token being sold) across all pools */
+  inTokenAmount: BigNumber;
+  /** Total amount of the output token (the token being bought) across all pools */
+  outTokenAmount: BigNumber;
 }
 
 /**
@@ -122,3 +200,102 @@ export interface GetUserAssetsResult {
   /** Total number of different tokens the user owns */
   count: number;
 }
+
+/**
+ * A point on a pool's liquidity depth curve.
+ */
+export interface LiquidityDepthPoint {
+  /** Amount of the input token sold, including fees */
+  inTokenAmount: BigNumber;
+  /** Amount of the output token received */
+  outTokenAmount: BigNumber;
+  /** Price impact after selling inTokenAmount (e.g., -0.01 for a 1% decrease) */
+  priceImpact: BigNumber;
+}
+
+/**
+ * Result from calculating the liquidity depth of a pool in one direction.
+ */
+export interface GetLiquidityDepthResult {
+  /** The token being sold */
+  tokenIn: string;
+  /** The token being bought */
+  tokenOut: string;
+  /** Fee tier of the pool (e.g., 500 for 0.05%, 3000 for 0.3%) */
+  feeTier: number;
+  /** Current price of the pool (how many output tokens per input token) */
+  currentPrice: Price;
+  /** How much can be sold before the price moves by each requested amount, in the order requested */
+  levels: LiquidityDepthPoint[];
+  /** Evenly spaced points from zero up to the largest level */
+  curve: LiquidityDepthPoint[];
+}
+
+/**
+ * Local preview of how much of a limit price swap would fill.
+ */
+export interface LimitSwapPreview {
+  /** The token being sold */
+  tokenIn: string;
+  /** The token being bought */
+  tokenOut: string;
+  /** Fee tier of the pool (e.g., 500 for 0.05%, 3000 for 0.3%) */
+  feeTier: number;
+  /** Current price of the pool (how many output tokens per input token) */
+  currentPrice: Price;
+  /** The limit price of the swap (how many output tokens per input token) */
+  limitPrice: Price;
+  /** Price of the pool after the filled part of the swap (how many output tokens per input token) */
+  newPrice: Price;
+  /** Amount of input tokens that would be sold, including fees */
+  inTokenAmount: BigNumber;
+  /** Amount of output tokens that would be bought */
+  outTokenAmount: BigNumber;
+  /** Whether the whole requested amount fills before the price reaches the limit */
+  isFullyFilled: boolean;
+  /** The filled fraction of the requested amount, from 0 to 1 */
+  fillRatio: BigNumber;
+}
+
+/**
+ * The outcome of a single swap in one pool, decoded from a confirmed transaction.
+ */
+export interface PoolSwapResult {
+  /** Unique hash identifier for the liquidity pool, if the chain reported it */
+  poolHash: string | undefined;
+  /** Amount of token0 that moved into (positive) or out of (negative) the pool */
+  amount0: BigNumber;
+  /** Amount of token1 that moved into (positive) or out of (negative) the pool */
+  amount1: BigNumber;
+  /** Amount of the input token sold */
+  inTokenAmount: BigNumber;
+  /** Amount of the output token bought */
+  outTokenAmount: BigNumber;
+}
+
+/**
+ * The outcome of a confirmed swap, multi-hop route or split order.
+ */
+export interface SwapTransactionResult {
+  /** Total amount of the input token sold */
+  inTokenAmount: BigNumber;
+  /** Total amount of the output token bought */
+  outTokenAmount: BigNumber;
+  /** The swap in each pool, in the order they were executed */
+  swaps: PoolSwapResult[];
+}
+
+/**
+ * The outcome of a confirmed liquidity operation. The amounts are the tokens added to the position
+ * when adding liquidity, the tokens taken out when removing liquidity, and the fees received when collecting fees.
+ */
+export interface LiquidityTransactionResult {
+  /** Unique identifier of the position, including a position created by the transaction */
+  positionId: string;
+  /** Unique hash identifier for the liquidity pool, if the chain reported it */
+  poolHash: string | undefined;
+  /** Amount of token0 (ordered by token address) */
+  amount0: BigNumber;
+  /** Amount of token1 (ordered by token address) */
+  amount1: BigNumber;
+}
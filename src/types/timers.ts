@@ -0,0 +1,20 @@
+export type TimerHandle = unknown;
+
+/**
+ * The clock and timer functions used by scheduled jobs. Pass your own implementation to control time in tests.
+ */
+export interface Timers {
+  /** The current time, in milliseconds since the epoch */
+  now(): number;
+  setTimeout(callback: () => void, delayMs: number): TimerHandle;
+  clearTimeout(handle: TimerHandle): void;
+}
+
+/**
+ * Timers backed by the system clock.
+ */
+export const systemTimers: Timers = {
+  now: () => Date.now(),
+  setTimeout: (callback, delayMs) => setTimeout(callback, delayMs),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
@@ -0,0 +1,55 @@
+import { GSwapSDKError } from '../classes/gswap_sdk_error.js';
+
+/**
+ * Throws the `ABORTED` error if the signal has been aborted.
+ */
+export function throwIfAborted(
+  signal: AbortSignal | undefined,
+  details?: Record<string, unknown>,
+): void {
+  if (signal?.aborted) {
+    throw GSwapSDKError.abortedError(signal.reason, details);
+  }
+}
+
+/**
+ * Settles like the promise, unless the signal is aborted first, in which case it rejects with the
+ * `ABORTED` error. The promise itself keeps running, so use this for work that others may share.
+ * @param onAbort - Called when the signal is aborted before the promise settles, to clean up.
+ */
+export function abortable<T>(
+  promise: Promise<T>,
+  signal: AbortSignal | undefined,
+  details?: Record<string, unknown>,
+  onAbort?: () => void,
+): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    if (signal.aborted) {
+      onAbort?.();
+      reject(GSwapSDKError.abortedError(signal.reason, details));
+      return;
+    }
+
+    const handleAbort = () => {
+      onAbort?.();
+      reject(GSwapSDKError.abortedError(signal.reason, details));
+    };
+
+    signal.addEventListener('abort', handleAbort, { once: true });
+
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', handleAbort);
+        resolve(value);
+      },
+      (error: unknown) => {
+        signal.removeEventListener('abort', handleAbort);
+        reject(error);
+      },
+    );
+  });
+}
@@ -0,0 +1,47 @@
+import { TokenClassKey } from '@gala-chain/api';
+import { DexFeePercentageTypes, Pool } from '@gala-chain/dex';
+import { GetPoolDataResponse } from '../types/api_responses.js';
+import { validateFee } from './validation.js';
+
+/**
+ * Converts a fee tier to the dex library's fee type, after checking that it is a valid fee.
+ */
+export function getDexFeeType(fee: number): DexFeePercentageTypes {
+  validateFee(fee);
+
+  // The chain accepts any configured fee tier, including ones the dex library doesn't know about yet
+  return fee as DexFeePercentageTypes;
+}
+
+/**
+ * Gets the hash the chain identifies a pool by, as found in transaction results and in the pool's
+ * `service|pool_<hash>` alias.
+ */
+export function getPoolHash(
+  pool: Pick<
+    GetPoolDataResponse,
+    'token0' | 'token1' | 'token0ClassKey' | 'token1ClassKey' | 'fee' | 'sqrtPrice'
+  >,
+): string {
+  return new Pool(
+    pool.token0,
+    pool.token1,
+    pool.token0ClassKey as TokenClassKey,
+    pool.token1ClassKey as TokenClassKey,
+    getDexFeeType(pool.fee),
+    pool.sqrtPrice,
+  ).genPoolHash();
+}
+
+/**
+ * Whether an error thrown by the dex library means a pool doesn't have enough liquidity for a swap.
+ * The dex library may use its own copy of `@gala-chain/api`, so its `ConflictError` is matched by shape
+ * rather than with `instanceof ChainError`.
+ */
+export function isDexConflictError(error: unknown): boolean {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    (('code' in error && error.code === 409) || ('key' in error && error.key === 'CONFLICT'))
+  );
+}
@@ -0,0 +1,277 @@
+import BigNumber from 'bignumber.js';
+
+const MIN_TICK = -886800;
+const MAX_TICK = 886800;
+
+/**
+ * The parts of a pool's state needed to simulate swaps locally.
+ */
+export interface PoolMathState {
+  sqrtPrice: BigNumber;
+  /** Liquidity that is active at the current price */
+  liquidity: BigNumber;
+  /** Fee tier in hundredths of a basis point (e.g. 3000 for 0.3%) */
+  fee: number;
+  /** Initialized ticks, with the net liquidity added when the price crosses them upwards */
+  ticks: Array<{ tick: number; liquidityNet: BigNumber }>;
+  token0Balance: BigNumber;
+  token1Balance: BigNumber;
+}
+
+/**
+ * Conditions that end a simulated swap. The swap ends at whichever is reached first.
+ */
+export interface SwapSimulationLimits {
+  /** The amount of the input token to sell, including fees */
+  amountIn?: BigNumber | undefined;
+  /** The amount of the output token to buy */
+  amountOut?: BigNumber | undefined;
+  /** The square root price the pool may not move past */
+  sqrtPriceLimit?: BigNumber | undefined;
+}
+
+/**
+ * A price range with constant liquidity that a simulated swap moved through.
+ */
+export interface SwapSimulationSegment {
+  sqrtPriceStart: BigNumber;
+  sqrtPriceEnd: BigNumber;
+  liquidity: BigNumber;
+  /** Amount of the input token sold in this range, including fees */
+  amountIn: BigNumber;
+  amountOut: BigNumber;
+  feeAmount: BigNumber;
+}
+
+export interface SwapSimulation {
+  /** Amount of the input token sold, including fees */
+  amountIn: BigNumber;
+  amountOut: BigNumber;
+  feeAmount: BigNumber;
+  sqrtPriceStart: BigNumber;
+  sqrtPriceEnd: BigNumber;
+  ticksCrossed: number;
+  segments: SwapSimulationSegment[];
+  /** Whether the swap ended because the pool ran out of liquidity */
+  isLiquidityExhausted: boolean;
+}
+
+export function tickToSqrtPrice(tick: number): BigNumber {
+  return BigNumber(Math.pow(1.0001, tick / 2));
+}
+
+export function sqrtPriceToTick(sqrtPrice: BigNumber): number {
+  const tick = Math.floor((2 * Math.log(sqrtPrice.toNumber())) / Math.log(1.0001));
+  return Math.min(Math.max(tick, MIN_TICK), MAX_TICK);
+}
+
+/**
+ * Calculates the price impact of moving a pool from one square root price to another,
+ * in terms of output tokens per input token (e.g., -0.01 for a 1% decrease).
+ */
+export function getPriceImpact(
+  sqrtPriceStart: BigNumber,
+  sqrtPriceEnd: BigNumber,
+  zeroForOne: boolean,
+): BigNumber {
+  const ratio = zeroForOne
+    ? sqrtPriceEnd.dividedBy(sqrtPriceStart)
+    : sqrtPriceStart.dividedBy(sqrtPriceEnd);
+
+  return ratio.pow(2).minus(1);
+}
+
+/**
+ * Calculates the square root price at which a swap has moved the price by the given fraction (e.g. 0.01 for 1%).
+ */
+export function getSqrtPriceLimitForPriceImpact(
+  sqrtPrice: BigNumber,
+  priceImpact: BigNumber,
+  zeroForOne: boolean,
+): BigNumber {
+  const sqrtRatio = BigNumber(1).minus(priceImpact).sqrt();
+  return zeroForOne ? sqrtPrice.multipliedBy(sqrtRatio) : sqrtPrice.dividedBy(sqrtRatio);
+}
+
+/**
+ * Calculates the square root price limit at which a swap reaches a price, in terms of output tokens per input token.
+ */
+export function getSqrtPriceLimitForPrice(price: BigNumber, zeroForOne: boolean): BigNumber {
+  // The pool price is token1 per token0, so it is inverted when selling token1
+  return zeroForOne ? price.sqrt() : BigNumber(1).dividedBy(price).sqrt();
+}
+
+function getAmount0Delta(sqrtPriceA: BigNumber, sqrtPriceB: BigNumber, liquidity: BigNumber) {
+  const [lower, upper] = sqrtPriceA.isLessThan(sqrtPriceB)
+    ? [sqrtPriceA, sqrtPriceB]
+    : [sqrtPriceB, sqrtPriceA];
+
+  return liquidity.multipliedBy(upper.minus(lower)).dividedBy(lower.multipliedBy(upper));
+}
+
+function getAmount1Delta(sqrtPriceA: BigNumber, sqrtPriceB: BigNumber, liquidity: BigNumber) {
+  return liquidity.multipliedBy(sqrtPriceA.minus(sqrtPriceB).abs());
+}
+
+function getNextSqrtPriceFromInput(
+  sqrtPrice: BigNumber,
+  liquidity: BigNumber,
+  amountIn: BigNumber,
+  zeroForOne: boolean,
+): BigNumber {
+  if (zeroForOne) {
+    return liquidity
+      .multipliedBy(sqrtPrice)
+      .dividedBy(liquidity.plus(amountIn.multipliedBy(sqrtPrice)));
+  }
+
+  return sqrtPrice.plus(amountIn.dividedBy(liquidity));
+}
+
+function getNextSqrtPriceFromOutput(
+  sqrtPrice: BigNumber,
+  liquidity: BigNumber,
+  amountOut: BigNumber,
+  zeroForOne: boolean,
+): BigNumber | undefined {
+  if (zeroForOne) {
+    const next = sqrtPrice.minus(amountOut.dividedBy(liquidity));
+    return next.isPositive() && !next.isZero() ? next : undefined;
+  }
+
+  const denominator = liquidity.minus(amountOut.multipliedBy(sqrtPrice));
+  if (!denominator.isPositive() || denominator.isZero()) {
+    // The remaining liquidity can never provide this much of the output token
+    return undefined;
+  }
+
+  return liquidity.multipliedBy(sqrtPrice).dividedBy(denominator);
+}
+
+/**
+ * Simulates a swap against a pool by walking its initialized ticks.
+ * Amounts are not rounded to token decimals.
+ */
+export function simulateSwap(
+  state: PoolMathState,
+  zeroForOne: boolean,
+  limits: SwapSimulationLimits,
+): SwapSimulation {
+  const feeRate = BigNumber(state.fee).dividedBy(1_000_000);
+  const outBalance = zeroForOne ? state.token1Balance : state.token0Balance;
+  const currentTick = sqrtPriceToTick(state.sqrtPrice);
+  const { sqrtPriceLimit } = limits;
+
+  // Ticks in the order the price will reach them
+  const ticks = state.ticks
+    .filter((tick) => (zeroForOne ? tick.tick <= currentTick : tick.tick > currentTick))
+    .sort((a, b) => (zeroForOne ? b.tick - a.tick : a.tick - b.tick));
+
+  const isCloser = (a: BigNumber, b: BigNumber) =>
+    zeroForOne ? a.isGreaterThan(b) : a.isLessThan(b);
+
+  let sqrtPrice = state.sqrtPrice;
+  let liquidity = state.liquidity;
+  let amountIn = BigNumber(0);
+  let amountOut = BigNumber(0);
+  let feeAmount = BigNumber(0);
+  let ticksCrossed = 0;
+  let isLiquidityExhausted = false;
+  const segments: SwapSimulationSegment[] = [];
+
+  for (let tickIndex = 0; ; tickIndex++) {
+    const nextTick = ticks[tickIndex];
+    const tickSqrtPrice = tickToSqrtPrice(nextTick?.tick ?? (zeroForOne ? MIN_TICK : MAX_TICK));
+    const isLimitTarget = sqrtPriceLimit !== undefined && !isCloser(tickSqrtPrice, sqrtPriceLimit);
+    const target = isLimitTarget ? sqrtPriceLimit : tickSqrtPrice;
+
+    if (isCloser(target, sqrtPrice)) {
+      // The price is already past the limit
+      break;
+    }
+
+    let end = target;
+    let isBalanceBound = false;
+
+    if (liquidity.isPositive() && !liquidity.isZero()) {
+      if (limits.amountIn !== undefined) {
+        const remainingIn = limits.amountIn
+          .minus(amountIn)
+          .multipliedBy(BigNumber(1).minus(feeRate));
+        const next = getNextSqrtPriceFromInput(sqrtPrice, liquidity, remainingIn, zeroForOne);
+        if (isCloser(next, end)) {
+          end = next;
+        }
+      }
+
+      const remainingBalance = outBalance.minus(amountOut);
+      const remainingOut =
+        limits.amountOut !== undefined
+          ? BigNumber.min(limits.amountOut.minus(amountOut), remainingBalance)
+          : remainingBalance;
+      const next = getNextSqrtPriceFromOutput(sqrtPrice, liquidity, remainingOut, zeroForOne);
+      if (next && !isCloser(end, next)) {
+        end = next;
+        isBalanceBound =
+          limits.amountOut === undefined ||
+          remainingBalance.isLessThan(limits.amountOut.minus(amountOut));
+      }
+
+      const stepIn = zeroForOne
+        ? getAmount0Delta(sqrtPrice, end, liquidity)
+        : getAmount1Delta(sqrtPrice, end, liquidity);
+      const stepOut = zeroForOne
+        ? getAmount1Delta(sqrtPrice, end, liquidity)
+        : getAmount0Delta(sqrtPrice, end, liquidity);
+      const stepAmountIn = stepIn.dividedBy(BigNumber(1).minus(feeRate));
+
+      if (!stepIn.isZero()) {
+        segments.push({
+          sqrtPriceStart: sqrtPrice,
+          sqrtPriceEnd: end,
+          liquidity,
+          amountIn: stepAmountIn,
+          amountOut: stepOut,
+          feeAmount: stepAmountIn.minus(stepIn),
+        });
+      }
+
+      amountIn = amountIn.plus(stepAmountIn);
+      amountOut = amountOut.plus(stepOut);
+      feeAmount = feeAmount.plus(stepAmountIn.minus(stepIn));
+    }
+
+    sqrtPrice = end;
+
+    if (!end.isEqualTo(target)) {
+      isLiquidityExhausted = isBalanceBound;
+      break;
+    }
+
+    if (isLimitTarget) {
+      break;
+    }
+
+    if (!nextTick) {
+      // Reached the edge of the price range
+      isLiquidityExhausted = true;
+      break;
+    }
+
+    liquidity = zeroForOne
+      ? liquidity.minus(nextTick.liquidityNet)
+      : liquidity.plus(nextTick.liquidityNet);
+    ticksCrossed++;
+  }
+
+  return {
+    amountIn,
+    amountOut,
+    feeAmount,
+    sqrtPriceStart: state.sqrtPrice,
+    sqrtPriceEnd: sqrtPrice,
+    ticksCrossed,
+    segments,
+    isLiquidityExhausted,
+  };
+}
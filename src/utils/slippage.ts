@@ -0,0 +1,22 @@
+import BigNumber from 'bignumber.js';
+import type { GetQuoteResult } from '../types/sdk_results.js';
+
+/**
+ * The least output an exact input swap based on the quote should accept, rounded down to the output token's decimals.
+ */
+export function getAmountOutMinimum(quote: GetQuoteResult, slippageBps: number): BigNumber {
+  return quote.outTokenAmount
+    .multipliedBy(10000 - slippageBps)
+    .dividedBy(10000)
+    .decimalPlaces(quote.outTokenDecimals, BigNumber.ROUND_DOWN);
+}
+
+/**
+ * The most input an exact output swap based on the quote should spend, rounded up to the input token's decimals.
+ */
+export function getAmountInMaximum(quote: GetQuoteResult, slippageBps: number): BigNumber {
+  return quote.inTokenAmount
+    .multipliedBy(10000 + slippageBps)
+    .dividedBy(10000)
+    .decimalPlaces(quote.inTokenDecimals, BigNumber.ROUND_UP);
+}
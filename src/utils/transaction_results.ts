@@ -0,0 +1,130 @@
+import BigNumber from 'bignumber.js';
+import { GSwapSDKError } from '../classes/gswap_sdk_error.js';
+import type {
+  LiquidityTransactionResult,
+  PoolSwapResult,
+  SwapTransactionResult,
+} from '../types/sdk_results.js';
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseAmount(data: unknown, value: unknown, fieldName: string) {
+  const amount =
+    typeof value === 'string' || typeof value === 'number' ? BigNumber(value) : BigNumber(NaN);
+
+  if (!amount.isFinite()) {
+    throw GSwapSDKError.unexpectedTransactionResultError(data, `${fieldName} must be a number`);
+  }
+
+  return amount;
+}
+
+// A BatchSubmit transaction resolves with one chain response per operation
+function getOperationResults(data: unknown): unknown[] {
+  if (!Array.isArray(data)) {
+    return [data];
+  }
+
+  return data.map((response: unknown, index) => {
+    if (!isRecord(response) || !isRecord(response.Data)) {
+      throw GSwapSDKError.unexpectedTransactionResultError(
+        data,
+        `operation ${index} must have a Data object`,
+      );
+    }
+
+    return response.Data;
+  });
+}
+
+function decodePoolSwap(data: unknown): PoolSwapResult {
+  if (!isRecord(data)) {
+    throw GSwapSDKError.unexpectedTransactionResultError(data, 'swap result must be an object');
+  }
+
+  const amount0 = parseAmount(data, data.amount0, 'amount0');
+  const amount1 = parseAmount(data, data.amount1, 'amount1');
+
+  // Amounts are reported from the pool's side: positive into the pool, negative out of it
+  const [amountIn, amountOut] =
+    amount0.isPositive() && !amount0.isZero() ? [amount0, amount1] : [amount1, amount0];
+
+  return {
+    poolHash: typeof data.poolHash === 'string' ? data.poolHash : undefined,
+    amount0,
+    amount1,
+    inTokenAmount: amountIn,
+    outTokenAmount: amountOut.negated(),
+  };
+}
+
+function decodePoolSwaps(data: unknown) {
+  const swaps = getOperationResults(data).map(decodePoolSwap);
+
+  if (swaps.length === 0) {
+    throw GSwapSDKError.unexpectedTransactionResultError(data, 'no swap results');
+  }
+
+  return swaps;
+}
+
+/**
+ * Decodes the result of a swap, or of a split order executed as a batch of swaps in parallel pools.
+ * @param data - The `Data` of the confirmed transaction.
+ * @returns The total amounts sold and bought, and the swap in each pool.
+ */
+export function decodeSwapResult(data: unknown): SwapTransactionResult {
+  const swaps = decodePoolSwaps(data);
+
+  return {
+    inTokenAmount: BigNumber.sum(...swaps.map((swap) => swap.inTokenAmount)),
+    outTokenAmount: BigNumber.sum(...swaps.map((swap) => swap.outTokenAmount)),
+    swaps,
+  };
+}
+
+/**
+ * Decodes the result of a multi-hop route executed as a batch of swaps, each selling what the previous one bought.
+ * @param data - The `Data` of the confirmed transaction.
+ * @returns The amount sold by the first hop, the amount bought by the last hop, and the swap in each pool.
+ */
+export function decodeRouteSwapResult(data: unknown): SwapTransactionResult {
+  const swaps = decodePoolSwaps(data);
+
+  return {
+    inTokenAmount: swaps[0]!.inTokenAmount,
+    outTokenAmount: swaps[swaps.length - 1]!.outTokenAmount,
+    swaps,
+  };
+}
+
+/**
+ * Decodes the result of adding liquidity, removing liquidity or collecting fees.
+ * @param data - The `Data` of the confirmed transaction.
+ * @returns The position and the amounts of each token added, removed or collected.
+ */
+export function decodeLiquidityResult(data: unknown): LiquidityTransactionResult {
+  if (!isRecord(data)) {
+    throw GSwapSDKError.unexpectedTransactionResultError(
+      data,
+      'liquidity result must be an object',
+    );
+  }
+
+  if (typeof data.positionId !== 'string') {
+    throw GSwapSDKError.unexpectedTransactionResultError(data, 'positionId must be a string');
+  }
+
+  if (!Array.isArray(data.amounts) || data.amounts.length !== 2) {
+    throw GSwapSDKError.unexpectedTransactionResultError(data, 'amounts must have two entries');
+  }
+
+  return {
+    positionId: data.positionId,
+    poolHash: typeof data.poolHash === 'string' ? data.poolHash : undefined,
+    amount0: parseAmount(data, data.amounts[0], 'amounts[0]'),
+    amount1: parseAmount(data, data.amounts[1], 'amounts[1]'),
+  };
+}
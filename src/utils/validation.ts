@@ -89,6 +89,39 @@ export function validatePriceValues(
   }
 }
 
+export function validatePriceImpact(priceImpact: NumericAmount, parameterName: string): void {
+  const bnPriceImpact = BigNumber(priceImpact);
+
+  if (
+    !bnPriceImpact.isFinite() ||
+    !bnPriceImpact.isGreaterThan(0) ||
+    !bnPriceImpact.isLessThan(1)
+  ) {
+    throw new GSwapSDKError(
+      `Invalid ${parameterName}: must be greater than 0 and less than 1`,
+      'VALIDATION_ERROR',
+      {
+        type: 'INVALID_PRICE_IMPACT',
+        parameterName,
+        value: priceImpact,
+      },
+    );
+  }
+}
+
+export function validateSlippageBps(slippageBps: number): void {
+  if (!Number.isInteger(slippageBps) || slippageBps < 0 || slippageBps > 10000) {
+    throw new GSwapSDKError(
+      'Invalid slippageBps: must be an integer between 0 and 10000',
+      'VALIDATION_ERROR',
+      {
+        type: 'INVALID_SLIPPAGE',
+        value: slippageBps,
+      },
+    );
+  }
+}
+
 export function validateTokenDecimals(decimals: number, parameterName: string): void {
   if (decimals < 0 || !Number.isInteger(decimals)) {
     throw new GSwapSDKError(
@@ -0,0 +1,373 @@
+import { expect } from 'chai';
+import { Bundler } from '../src/classes/bundler.js';
+import { GSwapSDKError, SlippageExceededError } from '../src/classes/gswap_sdk_error.js';
+import { HttpClient } from '../src/classes/http_client.js';
+import { PrivateKeySigner } from '../src/classes/signers.js';
+import { Swaps } from '../src/classes/swaps.js';
+import type { HttpRequestor } from '../src/types/http_requestor.js';
+import { decodeSwapResult } from '../src/utils/transaction_results.js';
+import { FakeTimers } from './fake_timers.js';
+
+describe('Bundler', () => {
+  let requestCount: number;
+  let sentBody: Record<string, unknown> | undefined;
+  let onlineBundler: Bundler;
+  const bundlerBaseUrl = 'https://bundler.galaswap.gala.com';
+  const bundlingAPIBasePath = '/bundling-api';
+  const walletAddress = 'eth|123...abc';
+
+  beforeEach(() => {
+    requestCount = 0;
+    sentBody = undefined;
+
+    const mockFetch: HttpRequestor = async (url: string, options?: RequestInit) => {
+      expect(url).to.equal(`${bundlerBaseUrl}${bundlingAPIBasePath}`);
+      requestCount++;
+      sentBody = JSON.parse(options?.body as string);
+
+      return new Response(
+        JSON.stringify({
+          data: 'mock-tx-id-12345',
+          message: 'Transaction submitted successfully',
+          error: false,
+        }),
+        {
+          status: 200,
+          headers: { 'Content-Type': 'application/json' },
+        },
+      );
+    };
+
+    // The online machine has no signer
+    onlineBundler = new Bundler(
+      bundlerBaseUrl,
+      bundlingAPIBasePath,
+      30000,
+      undefined,
+      new HttpClient(mockFetch),
+    );
+  });
+
+  describe('offline signing', () => {
+    it('should export an unsigned request, sign it offline and submit it', async () => {
+      const swaps = new Swaps(onlineBundler, { walletAddress });
+
+      const unsignedRequest = await swaps.swap(
+        'GALA|Unit|none|none',
+        'SILK|Unit|none|none',
+        10000,
+        { exactIn: '100', amountOutMinimum: '450' },
+        undefined,
+        { unsigned: true },
+      );
+
+      expect(requestCount).to.equal(0);
+      expect(unsignedRequest.method).to.equal('Swap');
+      expect(unsignedRequest.dto.amount).to.equal('100');
+      expect(unsignedRequest.dto.uniqueKey).to.be.a('string');
+      expect(unsignedRequest.dto).to.not.have.property('signature');
+
+      // On the offline machine
+      const offlineSigner = new PrivateKeySigner(
+        '0x0123456789012345678901234567890123456789012345678901234567890123',
+      );
+      const signedRequest = await Bundler.signRequest(
+        Bundler.parseUnsignedRequest(Bundler.serializeRequest(unsignedRequest)),
+        offlineSigner,
+      );
+      const signedJson = Bundler.serializeRequest(signedRequest);
+
+      // Back on the online machine
+      const pendingTransaction = await onlineBundler.submitSigned(
+        Bundler.parseSignedRequest(signedJson),
+      );
+
+      expect(pendingTransaction.transactionId).to.equal('mock-tx-id-12345');
+      expect(requestCount).to.equal(1);
+      expect(sentBody).to.deep.equal(JSON.parse(signedJson));
+      expect((sentBody?.signedDto as Record<string, unknown>).uniqueKey).to.equal(
+        unsignedRequest.dto.uniqueKey,
+      );
+      expect((sentBody?.signedDto as Record<string, unknown>).signature).to.be.a('string');
+    });
+
+    it('should require a signer to sign requests that are not exported unsigned', async () => {
+      const swaps = new Swaps(onlineBundler, { walletAddress });
+
+      try {
+        await swaps.swap('GALA|Unit|none|none', 'SILK|Unit|none|none', 10000, {
+          exactIn: '100',
+        });
+        expect.fail('Should have thrown an error');
+      } catch (error: unknown) {
+        expect((error as { code?: string }).code).to.equal('NO_SIGNER');
+      }
+    });
+  });
+
+  describe('parseSignedRequest', () => {
+    it('should reject requests without a signature', () => {
+      const json = JSON.stringify({
+        method: 'Swap',
+        dto: { uniqueKey: 'key' },
+        stringsInstructions: [],
+      });
+
+      expect(() => Bundler.parseSignedRequest(json)).to.throw(
+        'Invalid bundler request: signedDto must be an object with a signature',
+      );
+      expect(() => Bundler.parseUnsignedRequest(json)).to.not.throw();
+    });
+
+    it('should reject malformed JSON', () => {
+      expect(() => Bundler.parseSignedRequest('{')).to.throw(
+        'Invalid bundler request: not valid JSON',
+      );
+    });
+  });
+
+  describe('transaction status polling', () => {
+    let timers: FakeTimers;
+    let statusResponses: Array<Record<string, unknown> | number | Error | undefined>;
+    let statusRequests: string[];
+    let pollingBundler: Bundler;
+
+    beforeEach(() => {
+      timers = new FakeTimers();
+      statusResponses = [];
+      statusRequests = [];
+
+      const mockFetch: HttpRequestor = async (url: string) => {
+        if (url.startsWith(`${bundlerBaseUrl}/transaction-status`)) {
+          statusRequests.push(url);
+          const statusResponse = statusResponses.shift();
+
+          if (statusResponse instanceof Error) {
+            throw statusResponse;
+          }
+          if (typeof statusResponse === 'number') {
+            return new Response(JSON.stringify({ message: 'Unavailable' }), {
+              status: statusResponse,
+            });
+          }
+
+          return statusResponse
+            ? new Response(JSON.stringify(statusResponse), { status: 200 })
+            : new Response(JSON.stringify({ message: 'Not found' }), { status: 404 });
+        }
+
+        return new Response(
+          JSON.stringify({ data: 'mock-tx-id-12345', message: 'Submitted', error: false }),
+          { status: 200 },
+        );
+      };
+
+      pollingBundler = new Bundler(
+        bundlerBaseUrl,
+        bundlingAPIBasePath,
+        10000,
+        undefined,
+        // Polling carries on after failed status checks, so there is no need to retry them
+        new HttpClient(mockFetch, { maxAttempts: 1 }),
+        { transactionStatusPollIntervalMs: 1000, timers },
+      );
+    });
+
+    async function submit() {
+      const signedRequest = await Bundler.signRequest(
+        {
+          method: 'Swap',
+          dto: { uniqueKey: 'key' },
+          stringsInstructions: [],
+        },
+        new PrivateKeySigner('0x0123456789012345678901234567890123456789012345678901234567890123'),
+      );
+
+      return pollingBundler.submitSigned(signedRequest, decodeSwapResult);
+    }
+
+    it('should poll until the transaction is processed when no socket is connected', async () => {
+      const pendingTransaction = await submit();
+
+      statusResponses = [
+        undefined,
+        { status: 'PENDING' },
+        {
+          status: 'PROCESSED',
+          data: { transactionId: 'hash', Data: { amount0: '100', amount1: '-45' } },
+        },
+      ];
+
+      let settled = false;
+      const resultPromise = pendingTransaction.wait().finally(() => (settled = true));
+
+      await timers.advance(1000);
+      expect(settled).to.equal(false);
+      await timers.advance(1000);
+
+      const result = await resultPromise;
+
+      expect(statusRequests).to.have.length(3);
+      expect(statusRequests[0]).to.equal(
+        `${bundlerBaseUrl}/transaction-status?id=mock-tx-id-12345`,
+      );
+      expect(result.txId).to.equal('mock-tx-id-12345');
+      expect(result.transactionHash).to.equal('hash');
+      expect(result.outTokenAmount.toString()).to.equal('45');
+    });
+
+    it('should keep polling when a status check fails', async () => {
+      const pendingTransaction = await submit();
+
+      statusResponses = [
+        undefined,
+        new TypeError('fetch failed'),
+        503,
+        {
+          status: 'PROCESSED',
+          data: { transactionId: 'hash', Data: { amount0: '100', amount1: '-45' } },
+        },
+      ];
+
+      const resultPromise = pendingTransaction.wait();
+      await timers.advance(3000);
+
+      expect((await resultPromise).transactionHash).to.equal('hash');
+      expect(statusRequests).to.have.length(4);
+    });
+
+    it('should stop polling when a status check is rejected', async () => {
+      const pendingTransaction = await submit();
+
+      statusResponses = [401];
+
+      const error = await pendingTransaction.wait().catch((error: unknown) => error);
+
+      expect((error as GSwapSDKError).details?.status).to.equal(401);
+      expect(statusRequests).to.have.length(1);
+    });
+
+    it('should reject with a typed error when the transaction failed', async () => {
+      const pendingTransaction = await submit();
+
+      statusResponses = [
+        {
+          status: 'FAILED',
+          data: {
+            transactionId: 'hash',
+            ErrorCode: 409,
+            ErrorKey: 'SLIPPAGE_TOLERANCE_EXCEEDED',
+            ErrorPayload: {},
+            Message: 'Slippage tolerance exceeded',
+          },
+        },
+      ];
+
+      try {
+        await pendingTransaction.wait();
+        expect.fail('Should have thrown an error');
+      } catch (error: unknown) {
+        expect(error).to.be.instanceOf(SlippageExceededError);
+        expect((error as SlippageExceededError).transactionHash).to.equal('hash');
+      }
+    });
+
+    it('should time out like the socket path', async () => {
+      const pendingTransaction = await submit();
+      const resultPromise = pendingTransaction.wait().catch((error: unknown) => error);
+
+      await timers.advance(10000);
+
+      const error = await resultPromise;
+      expect((error as GSwapSDKError).code).to.equal('TRANSACTION_WAIT_TIMEOUT');
+      expect(statusRequests).to.have.length(11);
+    });
+
+    it('should stop polling when the wait is aborted, and start again on the next wait', async () => {
+      const pendingTransaction = await submit();
+      const controller = new AbortController();
+
+      const resultPromise = pendingTransaction
+        .wait({ signal: controller.signal })
+        .catch((error: unknown) => error);
+
+      await timers.advance(1000);
+      controller.abort();
+
+      const error = (await resultPromise) as GSwapSDKError;
+      expect(error.code).to.equal('ABORTED');
+      expect(error.details?.txId).to.equal('mock-tx-id-12345');
+
+      await timers.advance(5000);
+      expect(statusRequests).to.have.length(2);
+      expect(pendingTransaction.stage).to.equal('acknowledged');
+
+      statusResponses = [
+        {
+          status: 'PROCESSED',
+          data: { transactionId: 'hash', Data: { amount0: '100', amount1: '-45' } },
+        },
+      ];
+
+      expect((await pendingTransaction.wait()).transactionHash).to.equal('hash');
+      expect(statusRequests).to.have.length(3);
+    });
+
+    describe('lifecycle stages', () => {
+      it('should iterate over the stages until the transaction is processed', async () => {
+        await timers.advance(500);
+        const pendingTransaction = await submit();
+
+        statusResponses = [
+          { status: 'PENDING' },
+          {
+            status: 'PROCESSED',
+            data: { transactionId: 'hash', Data: { amount0: '1', amount1: '-2' } },
+          },
+        ];
+
+        const stagesPromise = (async () => {
+          const stages = [];
+          for await (const event of pendingTransaction) {
+            stages.push(event);
+          }
+          return stages;
+        })();
+
+        await timers.advance(1000);
+        const stages = await stagesPromise;
+
+        expect(stages.map((event) => [event.stage, event.timestamp])).to.deep.equal([
+          ['submitted', 500],
+          ['acknowledged', 500],
+          ['processed', 1500],
+        ]);
+        expect(stages[0]!.details).to.deep.equal({ method: 'Swap' });
+        expect(stages[2]!.details.transactionHash).to.equal('hash');
+        expect(pendingTransaction.stage).to.equal('processed');
+
+        // Waiting afterwards neither polls again nor reaches the final stage again
+        expect((await pendingTransaction.wait()).transactionHash).to.equal('hash');
+        expect(statusRequests).to.have.length(2);
+        expect(pendingTransaction.stages).to.have.length(3);
+      });
+
+      it('should start waiting when listening for stages', async () => {
+        const pendingTransaction = await submit();
+        const stages: string[] = [];
+        pendingTransaction.on('stage', ({ stage }) => stages.push(stage));
+
+        let timedOut: unknown;
+        pendingTransaction.on('timedOut', ({ details }) => (timedOut = details.error));
+
+        await timers.advance(10000);
+
+        expect(stages).to.deep.equal(['timedOut']);
+        expect((timedOut as GSwapSDKError).code).to.equal('TRANSACTION_WAIT_TIMEOUT');
+
+        const error = await pendingTransaction.wait().catch((error: unknown) => error);
+        expect(error).to.equal(timedOut);
+      });
+    });
+  });
+});
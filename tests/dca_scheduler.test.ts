@@ -0,0 +1,316 @@
+import BigNumber from 'bignumber.js';
+import { expect } from 'chai';
+import {
+  DcaExecution,
+  DcaScheduler,
+  InMemoryDcaScheduleStore,
+} from '../src/classes/dca_scheduler.js';
+import { GSwapSDKError } from '../src/classes/gswap_sdk_error.js';
+import { PendingTransaction } from '../src/classes/pending_transaction.js';
+import type { Swaps } from '../src/classes/swaps.js';
+import { decodeSwapResult } from '../src/utils/transaction_results.js';
+import { FakeTimers } from './fake_timers.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('DcaScheduler', () => {
+  let timers: FakeTimers;
+  let store: InMemoryDcaScheduleStore;
+  let swapCount: number;
+  let fillPrices: number[];
+  let swaps: Swaps;
+
+  beforeEach(() => {
+    timers = new FakeTimers();
+    store = new InMemoryDcaScheduleStore();
+    swapCount = 0;
+    fillPrices = [];
+
+    swaps = {
+      swapWithSlippage: async (args: { exactIn: string }) => {
+        const fillPrice = fillPrices[swapCount] ?? 2;
+        const amountIn = BigNumber(args.exactIn);
+        swapCount++;
+
+        return {
+          quote: {
+            feeTier: 3000,
+            inTokenAmount: amountIn,
+            outTokenAmount: amountIn.multipliedBy(2),
+          },
+          amountOutMinimum: amountIn.multipliedBy(1.99),
+          transaction: new PendingTransaction(
+            `tx-${swapCount}`,
+            'ok',
+            false,
+            async () => {
+              if (fillPrice === 0) {
+                throw GSwapSDKError.transactionWaitFailedError(`tx-${swapCount}`, {
+                  Message: 'Slippage tolerance exceeded',
+                });
+              }
+
+              return {
+                txId: `tx-${swapCount}`,
+                transactionHash: 'hash',
+                Data: {
+                  amount0: amountIn.toFixed(),
+                  amount1: amountIn.multipliedBy(-fillPrice).toFixed(),
+                },
+              };
+            },
+            decodeSwapResult,
+          ),
+        };
+      },
+    } as unknown as Swaps;
+  });
+
+  it('should execute runs at each interval and record their results', async () => {
+    const scheduler = new DcaScheduler(swaps, store, { timers });
+    const executions: DcaExecution[] = [];
+    scheduler.on('execution', (_schedule, execution: DcaExecution) => executions.push(execution));
+
+    await scheduler.start();
+    await scheduler.addSchedule({
+      id: 'daily-gala',
+      tokenIn: 'GUSDC|Unit|none|none',
+      tokenOut: 'GALA|Unit|none|none',
+      amountIn: '500',
+      intervalMs: DAY,
+      slippageBps: 50,
+    });
+
+    fillPrices = [2, 3, 0];
+    await timers.advance(0);
+    await timers.advance(DAY);
+    await timers.advance(DAY);
+    scheduler.stop();
+
+    expect(executions.map((execution) => execution.status)).to.deep.equal([
+      'succeeded',
+      'succeeded',
+      'failed',
+    ]);
+
+    const stored = await store.get('daily-gala');
+    expect(stored?.executions.map((execution) => execution.transactionId)).to.deep.equal([
+      'tx-1',
+      'tx-2',
+      'tx-3',
+    ]);
+    expect(stored?.executions[1]!.outTokenAmount).to.equal('1500');
+    expect(stored?.executions[2]!.error).to.equal('Transaction wait failed.');
+    expect(stored?.nextRunAt).to.equal(3 * DAY);
+
+    const summary = await scheduler.getSummary('daily-gala');
+    expect(summary.executedRuns).to.equal(2);
+    expect(summary.failedRuns).to.equal(1);
+    expect(summary.totalInTokenAmount.toString()).to.equal('1000');
+    expect(summary.totalOutTokenAmount.toString()).to.equal('2500');
+    expect(summary.averagePrice?.toString()).to.equal('2.5');
+    expect(summary.averageCost?.toString()).to.equal('0.4');
+  });
+
+  it('should pick up runs that were missed while it was not running', async () => {
+    const firstScheduler = new DcaScheduler(swaps, store, { timers });
+    await firstScheduler.start();
+    await firstScheduler.addSchedule({
+      id: 'catch-up',
+      tokenIn: 'GUSDC|Unit|none|none',
+      tokenOut: 'GALA|Unit|none|none',
+      amountIn: '500',
+      intervalMs: DAY,
+      slippageBps: 50,
+    });
+    await firstScheduler.addSchedule({
+      id: 'skip-missed',
+      tokenIn: 'GUSDC|Unit|none|none',
+      tokenOut: 'GALA|Unit|none|none',
+      amountIn: '100',
+      intervalMs: DAY,
+      slippageBps: 50,
+      missedRunPolicy: 'skip',
+    });
+    await timers.advance(0);
+    firstScheduler.stop();
+
+    // Restart after three more runs were due
+    await timers.advance(3 * DAY + 1000);
+    const restartedScheduler = new DcaScheduler(swaps, store, { timers });
+    await restartedScheduler.start();
+    await timers.advance(0);
+    restartedScheduler.stop();
+
+    const caughtUp = await store.get('catch-up');
+    expect(caughtUp?.executions.map((execution) => execution.scheduledAt)).to.deep.equal([
+      0,
+      DAY,
+      2 * DAY,
+      3 * DAY,
+    ]);
+    expect(caughtUp?.executions.every((execution) => execution.status === 'succeeded')).to.equal(
+      true,
+    );
+
+    const skipped = await store.get('skip-missed');
+    expect(skipped?.executions.map((execution) => execution.status)).to.deep.equal([
+      'succeeded',
+      'missed',
+      'missed',
+      'succeeded',
+    ]);
+    expect(skipped?.nextRunAt).to.equal(4 * DAY);
+
+    const summary = await restartedScheduler.getSummary('skip-missed');
+    expect(summary.executedRuns).to.equal(2);
+    expect(summary.missedRuns).to.equal(2);
+  });
+
+  it('should stop running a schedule once it is removed', async () => {
+    const scheduler = new DcaScheduler(swaps, store, { timers });
+    await scheduler.start();
+    await scheduler.addSchedule({
+      id: 'removed',
+      tokenIn: 'GUSDC|Unit|none|none',
+      tokenOut: 'GALA|Unit|none|none',
+      amountIn: '500',
+      intervalMs: DAY,
+      startAt: DAY,
+      slippageBps: 50,
+    });
+
+    await scheduler.removeSchedule('removed');
+    await timers.advance(2 * DAY);
+
+    expect(swapCount).to.equal(0);
+    expect(await store.list()).to.deep.equal([]);
+  });
+
+  it('should not hold up start or other schedules while a run is confirmed', async () => {
+    await store.save({
+      id: 'slow',
+      tokenIn: 'GUSDC|Unit|none|none',
+      tokenOut: 'GALA|Unit|none|none',
+      amountIn: '500',
+      intervalMs: DAY,
+      startAt: 0,
+      slippageBps: 50,
+      status: 'active',
+      nextRunAt: 0,
+      executions: [],
+    });
+    await store.save({ ...(await store.get('slow'))!, id: 'other', amountIn: '100' });
+
+    // The first swap is never confirmed
+    const slowSwaps = {
+      swapWithSlippage: async (args: { exactIn: string }) => {
+        const result = await swaps.swapWithSlippage(args as never);
+        return swapCount === 1
+          ? {
+              ...result,
+              transaction: new PendingTransaction('tx-1', 'ok', false, () => new Promise(() => {})),
+            }
+          : result;
+      },
+    } as unknown as Swaps;
+
+    const scheduler = new DcaScheduler(slowSwaps, store, { timers });
+    await scheduler.start();
+    await timers.advance(0);
+    scheduler.stop();
+
+    expect(swapCount).to.equal(2);
+    expect((await store.get('slow'))?.executions[0]!.status).to.equal('submitted');
+    expect((await store.get('other'))?.executions[0]!.status).to.equal('succeeded');
+  });
+
+  it('should arm the next run while a run is still being confirmed', async () => {
+    let confirmFirstSwap!: () => void;
+
+    // The first swap is only confirmed after the next run
+    const slowSwaps = {
+      swapWithSlippage: async (args: { exactIn: string }) => {
+        const result = await swaps.swapWithSlippage(args as never);
+        if (swapCount !== 1) {
+          return result;
+        }
+
+        const confirmed = new Promise<void>((resolve) => (confirmFirstSwap = resolve));
+        return {
+          ...result,
+          transaction: new PendingTransaction(
+            'tx-1',
+            'ok',
+            false,
+            async () => {
+              await confirmed;
+              return {
+                txId: 'tx-1',
+                transactionHash: 'hash',
+                Data: { amount0: '500', amount1: '-1000' },
+              };
+            },
+            decodeSwapResult,
+          ),
+        };
+      },
+    } as unknown as Swaps;
+
+    const scheduler = new DcaScheduler(slowSwaps, store, { timers });
+    const executions: DcaExecution[] = [];
+    scheduler.on('execution', (_schedule, execution: DcaExecution) => executions.push(execution));
+
+    await scheduler.start();
+    await scheduler.addSchedule({
+      id: 'daily-gala',
+      tokenIn: 'GUSDC|Unit|none|none',
+      tokenOut: 'GALA|Unit|none|none',
+      amountIn: '500',
+      intervalMs: DAY,
+      slippageBps: 50,
+    });
+    await timers.advance(DAY);
+
+    expect(swapCount).to.equal(2);
+    expect(
+      (await store.get('daily-gala'))?.executions.map((execution) => execution.status),
+    ).to.deep.equal(['submitted', 'succeeded']);
+
+    confirmFirstSwap();
+    await timers.advance(0);
+    scheduler.stop();
+
+    expect(executions.map((execution) => execution.transactionId)).to.deep.equal(['tx-2', 'tx-1']);
+    expect(
+      (await store.get('daily-gala'))?.executions.map((execution) => execution.status),
+    ).to.deep.equal(['succeeded', 'succeeded']);
+  });
+
+  it('should report schedules that fail to run', async () => {
+    const errors: Array<[unknown, string]> = [];
+    const failingStore = new InMemoryDcaScheduleStore();
+    failingStore.get = async () => {
+      throw new Error('Database unavailable');
+    };
+
+    const scheduler = new DcaScheduler(swaps, failingStore, { timers });
+    scheduler.on('error', (error: unknown, scheduleId: string) => errors.push([error, scheduleId]));
+    await scheduler.start();
+    await scheduler.addSchedule({
+      id: 'unreadable',
+      tokenIn: 'GUSDC|Unit|none|none',
+      tokenOut: 'GALA|Unit|none|none',
+      amountIn: '500',
+      intervalMs: DAY,
+      slippageBps: 50,
+    });
+    await timers.advance(0);
+    scheduler.stop();
+
+    expect(errors).to.have.length(1);
+    expect((errors[0]![0] as Error).message).to.equal('Database unavailable');
+    expect(errors[0]![1]).to.equal('unreadable');
+    expect(swapCount).to.equal(0);
+  });
+});
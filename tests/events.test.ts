@@ -0,0 +1,375 @@
+import { expect } from 'chai';
+import { Bundler } from '../src/classes/bundler.js';
+import { EventSocketConnectionStateChange, Events } from '../src/classes/events.js';
+import { GSwapSDKError, SlippageExceededError } from '../src/classes/gswap_sdk_error.js';
+import { HttpClient } from '../src/classes/http_client.js';
+import { PrivateKeySigner } from '../src/classes/signers.js';
+import { TransactionWaiter } from '../src/classes/tx_waiter.js';
+import { FakeSocketClient } from './fake_socket_client.js';
+import { FakeTimers } from './fake_timers.js';
+
+describe('Events', () => {
+  const originalConstructor = Events.tradeEventEmitterConstructor;
+  let timers: FakeTimers;
+  let events: Events;
+  let stateChanges: EventSocketConnectionStateChange[];
+
+  beforeEach(() => {
+    FakeSocketClient.instances = [];
+    FakeSocketClient.failConnects = 0;
+    Events.tradeEventEmitterConstructor = FakeSocketClient;
+
+    timers = new FakeTimers();
+    events = new Events();
+    stateChanges = [];
+    events.on('connectionStateChange', (change: EventSocketConnectionStateChange) =>
+      stateChanges.push(change),
+    );
+  });
+
+  afterEach(() => {
+    events.disconnectEventSocket();
+    Events.tradeEventEmitterConstructor = originalConstructor;
+  });
+
+  describe('reconnection', () => {
+    it('should reconnect with exponential backoff', async () => {
+      await events.connectEventSocket('https://bundler.test', { timers });
+      const client = FakeSocketClient.instances[0]!;
+
+      FakeSocketClient.failConnects = 2;
+      client.drop();
+
+      expect(events.connectionState).to.equal('reconnecting');
+
+      await timers.advance(1000);
+      expect(client.connectCount).to.equal(2);
+      await timers.advance(2000);
+      expect(client.connectCount).to.equal(3);
+      await timers.advance(3999);
+      expect(client.connectCount).to.equal(3);
+      await timers.advance(1);
+
+      expect(client.connectCount).to.equal(4);
+      expect(events.connectionState).to.equal('connected');
+      expect(events.eventSocketConnected()).to.equal(true);
+      expect(
+        stateChanges.map((change) => [change.state, change.attempt, change.delayMs]),
+      ).to.deep.equal([
+        ['connecting', undefined, undefined],
+        ['connected', undefined, undefined],
+        ['reconnecting', 1, 1000],
+        ['reconnecting', 2, 2000],
+        ['reconnecting', 3, 4000],
+        ['connected', undefined, undefined],
+      ]);
+    });
+
+    it('should keep waits pending and reconcile them after reconnecting', async () => {
+      await events.connectEventSocket('https://bundler.test', { timers });
+      const client = FakeSocketClient.instances[0]!;
+
+      events.registerTxId('finished-offline', 60000, async () => ({
+        status: 'PROCESSED',
+        transactionHash: 'hash-1',
+        data: { transactionId: 'hash-1', Data: { amount0: '1' } },
+      }));
+      events.registerTxId('still-pending', 60000, async () => undefined);
+
+      const finishedPromise = events.wait('finished-offline');
+      let stillPendingSettled = false;
+      const stillPendingPromise = events
+        .wait('still-pending')
+        .finally(() => (stillPendingSettled = true));
+
+      client.drop();
+      await timers.advance(1000);
+
+      const result = await finishedPromise;
+      expect(result.transactionHash).to.equal('hash-1');
+      expect(result.Data).to.deep.equal({ amount0: '1' });
+      expect(stillPendingSettled).to.equal(false);
+
+      client.emit('transaction', 'still-pending', {
+        status: 'PROCESSED',
+        transactionHash: 'hash-2',
+        data: { transactionId: 'hash-2', Data: {} },
+      });
+
+      expect((await stillPendingPromise).transactionHash).to.equal('hash-2');
+    });
+
+    it('should give up after the maximum number of attempts', async () => {
+      await events.connectEventSocket('https://bundler.test', {
+        timers,
+        reconnectMaxAttempts: 2,
+      });
+      events.registerTxId('pending', 60000);
+      const waitPromise = events.wait('pending').catch((error) => error);
+
+      FakeSocketClient.failConnects = 10;
+      FakeSocketClient.instances[0]!.drop();
+      await timers.advance(10000);
+
+      expect(events.connectionState).to.equal('disconnected');
+      expect((await waitPromise).code).to.equal('TRANSACTION_WAIT_FAILED');
+    });
+
+    it('should not fail transactions nobody waits on when giving up', async () => {
+      await events.connectEventSocket('https://bundler.test', {
+        timers,
+        reconnectMaxAttempts: 2,
+      });
+      events.registerTxId('not-awaited', 60000);
+
+      const unhandledRejections: unknown[] = [];
+      const onUnhandledRejection = (reason: unknown) => unhandledRejections.push(reason);
+      process.on('unhandledRejection', onUnhandledRejection);
+
+      try {
+        FakeSocketClient.failConnects = 10;
+        FakeSocketClient.instances[0]!.drop();
+        await timers.advance(10000);
+        await new Promise((resolve) => setImmediate(resolve));
+      } finally {
+        process.off('unhandledRejection', onUnhandledRejection);
+      }
+
+      expect(events.connectionState).to.equal('disconnected');
+      expect(unhandledRejections).to.deep.equal([]);
+    });
+
+    it('should replace a reconnecting client when connecting again', async () => {
+      await events.connectEventSocket('https://bundler.test', { timers });
+      const oldClient = FakeSocketClient.instances[0]!;
+
+      events.registerTxId('pending', 60000, async () => ({
+        status: 'PROCESSED',
+        transactionHash: 'hash-1',
+        data: { transactionId: 'hash-1', Data: {} },
+      }));
+      const waitPromise = events.wait('pending');
+
+      FakeSocketClient.failConnects = 1;
+      oldClient.drop();
+      await timers.advance(1000);
+      expect(events.connectionState).to.equal('reconnecting');
+
+      await events.connectEventSocket('https://bundler.test', { timers });
+      await timers.advance(60000);
+
+      expect(FakeSocketClient.instances).to.have.length(2);
+      expect(oldClient.connectCount).to.equal(2);
+      expect(oldClient.listenerCount('disconnect')).to.equal(0);
+      expect(events.connectionState).to.equal('connected');
+      expect((await waitPromise).transactionHash).to.equal('hash-1');
+    });
+
+    it('should not reconnect after disconnecting on purpose', async () => {
+      await events.connectEventSocket('https://bundler.test', { timers });
+      const client = FakeSocketClient.instances[0]!;
+
+      events.disconnectEventSocket();
+      client.drop();
+      await timers.advance(10000);
+
+      expect(client.connectCount).to.equal(1);
+      expect(events.connectionState).to.equal('disconnected');
+    });
+  });
+
+  describe('completed transactions', () => {
+    it('should return the outcome to waits that start after the transaction completed', async () => {
+      await events.connectEventSocket('https://bundler.test', { timers });
+      const client = FakeSocketClient.instances[0]!;
+
+      events.registerTxId('processed', 60000);
+      events.registerTxId('failed', 60000);
+      expect(events.getTransactionStatus('processed')).to.deep.equal({
+        status: 'PENDING',
+        txId: 'processed',
+      });
+
+      client.emit('transaction', 'processed', {
+        status: 'PROCESSED',
+        transactionHash: 'hash-1',
+        data: { transactionId: 'hash-1', Data: { amount0: '1' } },
+      });
+      client.emit('transaction', 'failed', {
+        status: 'FAILED',
+        transactionHash: 'hash-2',
+        data: {
+          transactionId: 'hash-2',
+          ErrorCode: 409,
+          ErrorKey: 'SLIPPAGE_TOLERANCE_EXCEEDED',
+          ErrorPayload: {},
+          Message: 'Slippage tolerance exceeded',
+        },
+      });
+
+      const result = await events.wait('processed');
+      expect(result.transactionHash).to.equal('hash-1');
+      expect(result.Data).to.deep.equal({ amount0: '1' });
+
+      const error = await events.wait('failed').catch((error: unknown) => error);
+      expect(error).to.be.instanceOf(SlippageExceededError);
+
+      const status = events.getTransactionStatus('failed');
+      expect(status?.status).to.equal('FAILED');
+      expect(status?.status === 'FAILED' && status.transactionHash).to.equal('hash-2');
+
+      // The outcomes are still available after disconnecting
+      events.disconnectEventSocket();
+      expect((await events.wait('processed')).Data).to.deep.equal({ amount0: '1' });
+    });
+
+    it('should only keep the most recent outcomes', () => {
+      const waiter = new TransactionWaiter(2);
+      waiter.setEnabled(true);
+
+      for (const txId of ['tx-1', 'tx-2', 'tx-3']) {
+        waiter.registerTxId(txId, 60000);
+        waiter.notifySuccess(txId, { transactionId: `hash-${txId}`, Data: {} });
+      }
+
+      expect(waiter.getStatus('tx-1')).to.equal(undefined);
+      expect(waiter.getStatus('tx-2')?.status).to.equal('PROCESSED');
+      expect(waiter.getStatus('tx-3')?.status).to.equal('PROCESSED');
+    });
+  });
+
+  describe('aborting', () => {
+    it('should stop waiting and release the transaction when the wait is aborted', async () => {
+      await events.connectEventSocket('https://bundler.test', { timers });
+      events.registerTxId('pending', 60000);
+
+      const controller = new AbortController();
+      const waitPromise = events
+        .wait('pending', { signal: controller.signal })
+        .catch((error: unknown) => error);
+
+      controller.abort();
+
+      expect(((await waitPromise) as GSwapSDKError).code).to.equal('ABORTED');
+      expect(events.isTxIdRegistered('pending')).to.equal(false);
+      expect(events.getTransactionStatus('pending')).to.equal(undefined);
+    });
+
+    it('should keep other waits going when one of them is aborted', async () => {
+      await events.connectEventSocket('https://bundler.test', { timers });
+      events.registerTxId('pending', 60000);
+
+      const controller = new AbortController();
+      const abortedPromise = events
+        .wait('pending', { signal: controller.signal })
+        .catch((error: unknown) => error);
+      const otherPromise = events.wait('pending', { signal: new AbortController().signal });
+
+      controller.abort();
+
+      expect(((await abortedPromise) as GSwapSDKError).code).to.equal('ABORTED');
+      expect(events.isTxIdRegistered('pending')).to.equal(true);
+
+      FakeSocketClient.instances[0]!.emit('transaction', 'pending', {
+        status: 'PROCESSED',
+        transactionHash: 'hash-1',
+        data: { transactionId: 'hash-1', Data: {} },
+      });
+
+      expect((await otherPromise).transactionHash).to.equal('hash-1');
+    });
+  });
+
+  describe('per-instance hubs', () => {
+    let submittedTxIds: number;
+
+    function createBundler(bundlerEvents?: Events) {
+      return new Bundler(
+        'https://bundler.test',
+        '/bundle',
+        60000,
+        undefined,
+        new HttpClient(
+          async () =>
+            new Response(
+              JSON.stringify({ data: `tx-${++submittedTxIds}`, message: 'ok', error: false }),
+              { status: 200 },
+            ),
+        ),
+        { events: bundlerEvents },
+      );
+    }
+
+    async function submit(bundler: Bundler) {
+      return bundler.submitSigned(
+        await Bundler.signRequest(
+          { method: 'Swap', dto: { uniqueKey: 'key' }, stringsInstructions: [] },
+          new PrivateKeySigner(
+            '0x0123456789012345678901234567890123456789012345678901234567890123',
+          ),
+        ),
+      );
+    }
+
+    beforeEach(() => {
+      submittedTxIds = 0;
+    });
+
+    afterEach(() => {
+      Events.instance.disconnectEventSocket();
+    });
+
+    it('should connect to the bundler the hub was created for', async () => {
+      await new Events('https://testnet-bundler.test').connectEventSocket();
+      await events.connectEventSocket();
+      // Connecting again reuses the connection
+      await events.connectEventSocket();
+
+      expect(FakeSocketClient.instances.map((client) => client.url)).to.deep.equal([
+        'https://testnet-bundler.test',
+        'https://bundle-backend-prod1.defi.gala.com',
+      ]);
+    });
+
+    it('should wait on transactions through the hub of its own instance', async () => {
+      const mainnetBundler = createBundler(events);
+      const testnetEvents = new Events('https://testnet-bundler.test');
+      const testnetBundler = createBundler(testnetEvents);
+
+      await events.connectEventSocket();
+      await testnetEvents.connectEventSocket();
+
+      const mainnetTransaction = await submit(mainnetBundler);
+      const testnetTransaction = await submit(testnetBundler);
+
+      expect(events.getTransactionStatus(mainnetTransaction.transactionId)?.status).to.equal(
+        'PENDING',
+      );
+      expect(events.getTransactionStatus(testnetTransaction.transactionId)).to.equal(undefined);
+      expect(testnetEvents.getTransactionStatus(testnetTransaction.transactionId)?.status).to.equal(
+        'PENDING',
+      );
+
+      FakeSocketClient.instances[1]!.emit('transaction', testnetTransaction.transactionId, {
+        status: 'PROCESSED',
+        transactionHash: 'testnet-hash',
+        data: { transactionId: 'testnet-hash', Data: {} },
+      });
+
+      expect((await testnetTransaction.wait()).transactionHash).to.equal('testnet-hash');
+      testnetEvents.disconnectEventSocket();
+    });
+
+    it('should fall back to the static hub when its own hub is not connected', async () => {
+      const bundler = createBundler(events);
+      await Events.instance.connectEventSocket();
+
+      const transaction = await submit(bundler);
+
+      expect(events.getTransactionStatus(transaction.transactionId)).to.equal(undefined);
+      expect(Events.instance.getTransactionStatus(transaction.transactionId)?.status).to.equal(
+        'PENDING',
+      );
+    });
+  });
+});
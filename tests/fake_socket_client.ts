@@ -0,0 +1,42 @@
+import { TradeEventEmitter } from '../src/classes/event_socket_client.js';
+
+/**
+ * A socket client that connects instantly, for testing event hubs without a bundler.
+ * Install it with `Events.tradeEventEmitterConstructor = FakeSocketClient`.
+ */
+export class FakeSocketClient extends TradeEventEmitter {
+  static instances: FakeSocketClient[] = [];
+  static failConnects = 0;
+
+  connected = false;
+  connectCount = 0;
+
+  constructor(public readonly url: string) {
+    super();
+    FakeSocketClient.instances.push(this);
+  }
+
+  async connect() {
+    this.connectCount++;
+
+    if (FakeSocketClient.failConnects > 0) {
+      FakeSocketClient.failConnects--;
+      throw new Error('Connection refused');
+    }
+
+    this.connected = true;
+  }
+
+  disconnect() {
+    this.connected = false;
+  }
+
+  isConnected() {
+    return this.connected;
+  }
+
+  drop() {
+    this.connected = false;
+    this.emit('disconnect', 'transport close');
+  }
+}
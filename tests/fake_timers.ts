@@ -0,0 +1,54 @@
+import { Timers } from '../src/types/timers.js';
+
+/**
+ * Timers that only advance when told to, for testing scheduled jobs.
+ */
+export class FakeTimers implements Timers {
+  private time = 0;
+  private nextHandle = 1;
+  private readonly pending = new Map<number, { at: number; callback: () => void }>();
+
+  now() {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, delayMs: number) {
+    const handle = this.nextHandle++;
+    this.pending.set(handle, { at: this.time + delayMs, callback });
+    return handle;
+  }
+
+  clearTimeout(handle: unknown) {
+    this.pending.delete(handle as number);
+  }
+
+  async advance(ms: number) {
+    const end = this.time + ms;
+
+    for (;;) {
+      await flushPromises();
+
+      const [handle, next] =
+        [...this.pending.entries()]
+          .filter(([, timer]) => timer.at <= end)
+          .sort(([, a], [, b]) => a.at - b.at)[0] ?? [];
+
+      if (handle === undefined || !next) {
+        break;
+      }
+
+      this.pending.delete(handle);
+      this.time = next.at;
+      next.callback();
+    }
+
+    this.time = end;
+    await flushPromises();
+  }
+}
+
+export async function flushPromises() {
+  for (let i = 0; i < 10; i++) {
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+}
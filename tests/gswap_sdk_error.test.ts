@@ -0,0 +1,73 @@
+import { expect } from 'chai';
+import {
+  DuplicateUniqueKeyError,
+  GSwapSDKError,
+  InsufficientBalanceError,
+  PoolNotFoundError,
+  SlippageExceededError,
+  TickOutOfRangeError,
+  TransactionFailedError,
+} from '../src/classes/gswap_sdk_error.js';
+
+function failure(ErrorKey: string, Message: string, ErrorPayload?: Record<string, unknown>) {
+  return GSwapSDKError.transactionWaitFailedError('tx-1', {
+    ErrorCode: 409,
+    ErrorKey,
+    ErrorPayload,
+    Message,
+    transactionId: 'hash-1',
+  });
+}
+
+describe('GSwapSDKError', () => {
+  describe('transactionWaitFailedError', () => {
+    it('should map known error keys to typed errors', () => {
+      expect(failure('SLIPPAGE_TOLERANCE_EXCEEDED', 'Slippage')).to.be.instanceOf(
+        SlippageExceededError,
+      );
+      expect(failure('INSUFFICIENT_BALANCE', 'Insufficient balance')).to.be.instanceOf(
+        InsufficientBalanceError,
+      );
+      expect(failure('NOT_FOUND', 'Pool does not exist')).to.be.instanceOf(PoolNotFoundError);
+      expect(failure('VALIDATION_FAILED', 'Tick is out of range')).to.be.instanceOf(
+        TickOutOfRangeError,
+      );
+      expect(failure('UNIQUE_TRANSACTION_CONFLICT', 'Duplicate key')).to.be.instanceOf(
+        DuplicateUniqueKeyError,
+      );
+    });
+
+    it('should only match generic error keys by message', () => {
+      const error = failure('NOT_FOUND', 'Token class not found');
+
+      expect(error).to.be.instanceOf(TransactionFailedError);
+      expect(error).to.not.be.instanceOf(PoolNotFoundError);
+      expect(error.errorKey).to.equal('NOT_FOUND');
+      expect(error.isRetryable).to.equal(false);
+    });
+
+    it('should carry structured fields', () => {
+      const error = failure('INSUFFICIENT_BALANCE', 'Insufficient balance', {
+        owner: 'eth|123...abc',
+        quantity: '100',
+        spendableQuantity: '42.5',
+      }) as InsufficientBalanceError;
+
+      expect(error.code).to.equal('TRANSACTION_WAIT_FAILED');
+      expect(error.txId).to.equal('tx-1');
+      expect(error.transactionHash).to.equal('hash-1');
+      expect(error.errorCode).to.equal(409);
+      expect(error.chainMessage).to.equal('Insufficient balance');
+      expect(error.owner).to.equal('eth|123...abc');
+      expect(error.quantity?.toString()).to.equal('100');
+      expect(error.spendableQuantity?.toString()).to.equal('42.5');
+      expect(error.details?.transactionHash).to.equal('hash-1');
+    });
+
+    it('should only flag slippage failures as retryable', () => {
+      expect(failure('CONFLICT', 'Slippage tolerance exceeded').isRetryable).to.equal(true);
+      expect(failure('INSUFFICIENT_BALANCE', 'Insufficient balance').isRetryable).to.equal(false);
+      expect(failure('UNIQUE_TRANSACTION_CONFLICT', 'Duplicate key').isRetryable).to.equal(false);
+    });
+  });
+});
@@ -0,0 +1,234 @@
+import { expect } from 'chai';
+import { GSwapSDKError } from '../src/classes/gswap_sdk_error.js';
+import { HttpClient } from '../src/classes/http_client.js';
+import { FakeTimers } from './fake_timers.js';
+
+describe('HttpClient', () => {
+  describe('retries', () => {
+    let timers: FakeTimers;
+    let attemptTimes: number[];
+
+    function createClient(...responses: Array<Response | Error>) {
+      return new HttpClient(
+        async () => {
+          attemptTimes.push(timers.now());
+          const response = responses.shift();
+
+          if (!response) {
+            throw new Error('No more responses');
+          }
+          if (response instanceof Error) {
+            throw response;
+          }
+
+          return response;
+        },
+        { timers, jitter: false },
+      );
+    }
+
+    function ok() {
+      return new Response(JSON.stringify({ Status: 1, Data: 'result' }), { status: 200 });
+    }
+
+    function failed(status: number, headers: Record<string, string> = {}) {
+      return new Response(JSON.stringify({ message: 'Try again later' }), { status, headers });
+    }
+
+    beforeEach(() => {
+      timers = new FakeTimers();
+      attemptTimes = [];
+    });
+
+    it('should retry read requests with exponential backoff', async () => {
+      const client = createClient(failed(503), new TypeError('fetch failed'), ok());
+
+      const responsePromise = client.sendPostRequest(
+        'https://gateway.test',
+        '/dex',
+        '/GetPoolData',
+        {},
+        { idempotent: true },
+      );
+      await timers.advance(1500);
+
+      expect(await responsePromise).to.deep.equal({ Status: 1, Data: 'result' });
+      expect(attemptTimes).to.deep.equal([0, 500, 1500]);
+    });
+
+    it('should wait as long as the Retry-After header asks', async () => {
+      const client = createClient(failed(429, { 'Retry-After': '3' }), ok());
+
+      const responsePromise = client.sendGetRequest('https://backend.test', '/user/assets', '');
+      await timers.advance(3000);
+
+      await responsePromise;
+      expect(attemptTimes).to.deep.equal([0, 3000]);
+    });
+
+    it('should give up after the maximum number of attempts', async () => {
+      const client = createClient(failed(500), failed(502), failed(504), ok());
+
+      const errorPromise = client
+        .sendGetRequest('https://backend.test', '/user/assets', '')
+        .catch((error: unknown) => error);
+      await timers.advance(10000);
+
+      const error = (await errorPromise) as GSwapSDKError;
+      expect(error.code).to.equal('HTTP_ERROR');
+      expect(error.details?.status).to.equal(504);
+      expect(attemptTimes).to.have.length(3);
+    });
+
+    it('should only retry submissions that were turned away', async () => {
+      const client = createClient(failed(429), failed(500), ok());
+
+      const errorPromise = client
+        .sendPostRequest('https://bundler.test', '/bundle', '', { signature: '0x' })
+        .catch((error: unknown) => error);
+      await timers.advance(10000);
+
+      expect(((await errorPromise) as GSwapSDKError).details?.status).to.equal(500);
+      expect(attemptTimes).to.deep.equal([0, 500]);
+    });
+
+    it('should not retry other errors', async () => {
+      const client = createClient(failed(400), new Error('Unexpected'));
+
+      const error = await client
+        .sendGetRequest('https://backend.test', '/user/assets', '')
+        .catch((error: unknown) => error);
+
+      expect((error as GSwapSDKError).details?.status).to.equal(400);
+      expect(attemptTimes).to.have.length(1);
+    });
+
+    it('should stop waiting to retry when aborted', async () => {
+      const client = createClient(failed(503), ok());
+      const controller = new AbortController();
+
+      const errorPromise = client
+        .sendGetRequest('https://backend.test', '/user/assets', '', undefined, {
+          signal: controller.signal,
+        })
+        .catch((error: unknown) => error);
+      await timers.advance(100);
+      controller.abort();
+
+      expect(((await errorPromise) as GSwapSDKError).code).to.equal('ABORTED');
+      await timers.advance(1000);
+      expect(attemptTimes).to.have.length(1);
+    });
+  });
+  describe('middleware', () => {
+    it('should pass requests and responses through the middleware in order', async () => {
+      const sentRequests: Array<{ url: string; headers: unknown; body: unknown }> = [];
+      const seen: string[] = [];
+
+      const client = new HttpClient(
+        async (url, init) => {
+          sentRequests.push({ url, headers: init?.headers, body: init?.body });
+          return new Response(JSON.stringify({ Status: 1, Data: 'result' }), { status: 200 });
+        },
+        {},
+        [
+          async (request, next) => {
+            seen.push(`first: ${request.method} ${request.endpoint}`);
+            const response = await next({
+              ...request,
+              headers: { ...request.headers, 'X-API-Key': 'secret' },
+            });
+            seen.push(`first: ${response.status} ${JSON.stringify(response.body)}`);
+            return response;
+          },
+        ],
+      );
+
+      client.use(async (request, next) => {
+        seen.push(`second: ${JSON.stringify(request.body)} ${request.headers['X-API-Key']}`);
+        const response = await next({
+          ...request,
+          url: request.url.replace('https://gateway.test', 'https://proxy.test'),
+        });
+        return { ...response, body: { ...(response.body as object), inspected: true } };
+      });
+
+      const response = await client.sendPostRequest(
+        'https://gateway.test',
+        '/dex',
+        '/GetPoolData',
+        {
+          fee: 500,
+        },
+      );
+
+      expect(response).to.deep.equal({ Status: 1, Data: 'result', inspected: true });
+      expect(seen).to.deep.equal([
+        'first: POST /dex/GetPoolData',
+        'second: {"fee":500} secret',
+        'first: 200 {"Status":1,"Data":"result","inspected":true}',
+      ]);
+      expect(sentRequests).to.deep.equal([
+        {
+          url: 'https://proxy.test/dex/GetPoolData',
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': 'GalaChain-SDK/0.0',
+            'X-API-Key': 'secret',
+          },
+          body: '{"fee":500}',
+        },
+      ]);
+    });
+
+    it('should run the middleware for each attempt and see failed responses', async () => {
+      const timers = new FakeTimers();
+      const responses = [
+        new Response(JSON.stringify({ message: 'Busy' }), { status: 503 }),
+        new Response(JSON.stringify({ Data: [] }), { status: 200 }),
+      ];
+      const seen: unknown[] = [];
+
+      const client = new HttpClient(async () => responses.shift()!, { timers, jitter: false }, [
+        async (request, next) => {
+          const response = await next(request);
+          seen.push([request.attempt, request.endpoint, response.status, response.body]);
+          return response;
+        },
+      ]);
+
+      const responsePromise = client.sendGetRequest('https://backend.test', '/user/assets', '', {
+        address: 'eth|123',
+      });
+      await timers.advance(500);
+      await responsePromise;
+
+      expect(seen).to.deep.equal([
+        [1, '/user/assets', 503, { message: 'Busy' }],
+        [2, '/user/assets', 200, { Data: [] }],
+      ]);
+    });
+
+    it('should not retry errors thrown by middleware', async () => {
+      let attempts = 0;
+
+      const client = new HttpClient(
+        async () => new Response(JSON.stringify({ Data: [] }), { status: 200 }),
+        {},
+        [
+          async () => {
+            attempts++;
+            throw new TypeError('Cannot read properties of undefined');
+          },
+        ],
+      );
+
+      const error = await client
+        .sendGetRequest('https://backend.test', '/user/assets', '')
+        .catch((error: unknown) => error);
+
+      expect(error).to.be.instanceOf(TypeError);
+      expect(attempts).to.equal(1);
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import BigNumber from 'bignumber.js';
+import { expect } from 'chai';
+import {
+  getPriceImpact,
+  getSqrtPriceLimitForPrice,
+  getSqrtPriceLimitForPriceImpact,
+  PoolMathState,
+  simulateSwap,
+  tickToSqrtPrice,
+} from '../src/utils/pool_math.js';
+
+function createState(overrides: Partial<PoolMathState> = {}): PoolMathState {
+  return {
+    sqrtPrice: BigNumber(1),
+    liquidity: BigNumber(1000),
+    fee: 0,
+    ticks: [],
+    token0Balance: BigNumber(1000000),
+    token1Balance: BigNumber(1000000),
+    ...overrides,
+  };
+}
+
+describe('pool math', () => {
+  describe('simulateSwap', () => {
+    it('should sell until the price limit is reached', () => {
+      const state = createState();
+      const sqrtPriceLimit = getSqrtPriceLimitForPriceImpact(
+        state.sqrtPrice,
+        BigNumber(0.01),
+        true,
+      );
+
+      const result = simulateSwap(state, true, { sqrtPriceLimit });
+
+      expect(result.amountIn.toNumber()).to.be.closeTo(1000 * (1 / Math.sqrt(0.99) - 1), 1e-9);
+      expect(result.amountOut.toNumber()).to.be.closeTo(1000 * (1 - Math.sqrt(0.99)), 1e-9);
+      expect(
+        getPriceImpact(result.sqrtPriceStart, result.sqrtPriceEnd, true).toNumber(),
+      ).to.be.closeTo(-0.01, 1e-12);
+      expect(result.isLiquidityExhausted).to.equal(false);
+    });
+
+    it('should charge the pool fee on the input amount', () => {
+      const state = createState({ fee: 3000 });
+
+      const result = simulateSwap(state, true, { amountIn: BigNumber(10) });
+      const expectedSqrtPrice = 1000 / (1000 + 9.97);
+
+      expect(result.amountIn.toNumber()).to.be.closeTo(10, 1e-9);
+      expect(result.feeAmount.toNumber()).to.be.closeTo(0.03, 1e-9);
+      expect(result.sqrtPriceEnd.toNumber()).to.be.closeTo(expectedSqrtPrice, 1e-12);
+      expect(result.amountOut.toNumber()).to.be.closeTo(1000 * (1 - expectedSqrtPrice), 1e-9);
+    });
+
+    it('should update liquidity when crossing initialized ticks', () => {
+      const state = createState({
+        ticks: [
+          { tick: -100, liquidityNet: BigNumber(500) },
+          { tick: 100, liquidityNet: BigNumber(-1000) },
+        ],
+      });
+
+      const result = simulateSwap(state, true, { amountIn: BigNumber(20) });
+
+      expect(result.ticksCrossed).to.equal(1);
+      expect(result.segments).to.have.length(2);
+      expect(result.segments[0]!.liquidity.toNumber()).to.equal(1000);
+      expect(result.segments[0]!.sqrtPriceEnd.toNumber()).to.be.closeTo(
+        tickToSqrtPrice(-100).toNumber(),
+        1e-12,
+      );
+      expect(result.segments[1]!.liquidity.toNumber()).to.equal(500);
+      expect(result.amountIn.toNumber()).to.be.closeTo(20, 1e-9);
+    });
+
+    it('should stop when the pool runs out of the output token', () => {
+      const state = createState({ token0Balance: BigNumber(1) });
+
+      const result = simulateSwap(state, false, { amountIn: BigNumber(100) });
+
+      expect(result.isLiquidityExhausted).to.equal(true);
+      expect(result.amountOut.toNumber()).to.be.closeTo(1, 1e-9);
+      expect(result.amountIn.toNumber()).to.be.lessThan(100);
+    });
+  });
+
+  describe('getSqrtPriceLimitForPrice', () => {
+    it('should invert the price when selling token1', () => {
+      expect(getSqrtPriceLimitForPrice(BigNumber(4), true).toNumber()).to.equal(2);
+      expect(getSqrtPriceLimitForPrice(BigNumber(4), false).toNumber()).to.equal(0.5);
+    });
+
+    it('should stop a simulated swap at the limit price', () => {
+      const state = createState();
+      const sqrtPriceLimit = getSqrtPriceLimitForPrice(BigNumber(0.98), true);
+
+      const result = simulateSwap(state, true, { amountIn: BigNumber(1000), sqrtPriceLimit });
+
+      expect(result.sqrtPriceEnd.pow(2).toNumber()).to.be.closeTo(0.98, 1e-12);
+      expect(result.amountIn.toNumber()).to.be.lessThan(1000);
+    });
+  });
+});
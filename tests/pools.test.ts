@@ -0,0 +1,296 @@
+import { expect } from 'chai';
+import { HttpClient } from '../src/classes/http_client.js';
+import { Events } from '../src/classes/events.js';
+import { GSwapSDKError } from '../src/classes/gswap_sdk_error.js';
+import { PoolLiquidityEvent, PoolSwapEvent } from '../src/classes/pool_subscription.js';
+import { Pools } from '../src/classes/pools.js';
+import type { HttpRequestor } from '../src/types/http_requestor.js';
+import { FakeSocketClient } from './fake_socket_client.js';
+import { FakeTimers } from './fake_timers.js';
+
+const poolNotFoundResponse = {
+  error: {
+    Message: 'No object with id GCDXCHLPL exists',
+    ErrorKey: 'OBJECT_NOT_FOUND',
+  },
+};
+
+// The hash of the GALA/SILK pool with a 0.3% fee, as the chain computes it
+const galaSilkPoolHash = '68ee37f5f03d61959356c2ce8162dcf5ab14e212f60f07346657b21bf8645202';
+
+function createMockGetPoolDataResponse(fee: number, tickSpacing: number) {
+  return {
+    Status: 1,
+    Data: {
+      bitmap: {},
+      fee,
+      feeGrowthGlobal0: '0',
+      feeGrowthGlobal1: '0',
+      grossPoolLiquidity: '1000000',
+      liquidity: '1000000',
+      maxLiquidityPerTick: '1000000000',
+      protocolFees: 0,
+      protocolFeesToken0: '0',
+      protocolFeesToken1: '0',
+      sqrtPrice: '1',
+      tickSpacing,
+      token0: 'GALA$Unit$none$none',
+      token0ClassKey: { collection: 'GALA', category: 'Unit', type: 'none', additionalKey: 'none' },
+      token1: 'SILK$Unit$none$none',
+      token1ClassKey: { collection: 'SILK', category: 'Unit', type: 'none', additionalKey: 'none' },
+    },
+  };
+}
+
+describe('Pools', () => {
+  const gatewayBaseUrl = 'https://dex-api.galaswap.gala.com';
+  const dexContractBasePath = '/asset-api/contract-methods/GswapApi';
+
+  describe('getTickSpacing', () => {
+    it('should return the tick spacing of a configured fee tier', () => {
+      const pools = new Pools(gatewayBaseUrl, dexContractBasePath, new HttpClient(), {
+        feeTiers: [{ fee: 100, tickSpacing: 1 }],
+      });
+
+      expect(pools.getTickSpacing(100)).to.equal(1);
+      expect(() => pools.getTickSpacing(500)).to.throw('Unknown fee tier: 500');
+    });
+  });
+
+  describe('getAvailableFeeTiers', () => {
+    it('should only return fee tiers that have a pool, and cache the result', async () => {
+      let requestCount = 0;
+
+      const mockFetch: HttpRequestor = async (url: string, options?: RequestInit) => {
+        expect(url).to.equal(`${gatewayBaseUrl}${dexContractBasePath}/GetPoolData`);
+        requestCount++;
+
+        const body = JSON.parse(options?.body as string);
+        const response =
+          body.fee === 100 ? createMockGetPoolDataResponse(100, 1) : poolNotFoundResponse;
+
+        return {
+          ok: body.fee === 100,
+          status: body.fee === 100 ? 200 : 404,
+          json: async () => response,
+          text: async () => JSON.stringify(response),
+        };
+      };
+
+      const pools = new Pools(gatewayBaseUrl, dexContractBasePath, new HttpClient(mockFetch), {
+        feeTiers: [
+          { fee: 100, tickSpacing: 1 },
+          { fee: 500, tickSpacing: 10 },
+          { fee: 3000, tickSpacing: 60 },
+        ],
+      });
+
+      const feeTiers = await pools.getAvailableFeeTiers(
+        'SILK|Unit|none|none',
+        'GALA|Unit|none|none',
+      );
+      expect(feeTiers).to.deep.equal([{ fee: 100, tickSpacing: 1 }]);
+      expect(requestCount).to.equal(3);
+
+      await pools.getAvailableFeeTiers('GALA|Unit|none|none', 'SILK|Unit|none|none');
+      expect(requestCount).to.equal(3);
+    });
+  });
+
+  describe('getPoolData', () => {
+    it('should pass the abort signal to the requestor and reject with ABORTED', async () => {
+      const controller = new AbortController();
+      let receivedSignal: AbortSignal | null | undefined;
+
+      const mockFetch: HttpRequestor = (_url: string, options?: RequestInit) => {
+        receivedSignal = options?.signal;
+
+        return new Promise((_resolve, reject) => {
+          options?.signal?.addEventListener('abort', () => reject(options.signal!.reason));
+        });
+      };
+
+      const pools = new Pools(gatewayBaseUrl, dexContractBasePath, new HttpClient(mockFetch));
+      const resultPromise = pools
+        .getPoolData('GALA|Unit|none|none', 'SILK|Unit|none|none', 3000, {
+          signal: controller.signal,
+        })
+        .catch((error: unknown) => error);
+
+      controller.abort('User navigated away');
+      const error = (await resultPromise) as GSwapSDKError;
+
+      expect(receivedSignal).to.equal(controller.signal);
+      expect(error).to.be.instanceOf(GSwapSDKError);
+      expect(error.code).to.equal('ABORTED');
+      expect(error.details?.reason).to.equal('User navigated away');
+    });
+
+    it('should not send a request when the signal is already aborted', async () => {
+      let requestCount = 0;
+      const mockFetch: HttpRequestor = async () => {
+        requestCount++;
+        throw new Error('Should not be called');
+      };
+
+      const pools = new Pools(gatewayBaseUrl, dexContractBasePath, new HttpClient(mockFetch));
+      const error = await pools
+        .getPoolData('GALA|Unit|none|none', 'SILK|Unit|none|none', 3000, {
+          signal: AbortSignal.abort(),
+        })
+        .catch((error: unknown) => error);
+
+      expect((error as GSwapSDKError).code).to.equal('ABORTED');
+      expect(requestCount).to.equal(0);
+    });
+  });
+
+  describe('subscribePool', () => {
+    const originalConstructor = Events.tradeEventEmitterConstructor;
+    let timers: FakeTimers;
+    let events: Events;
+    let pools: Pools;
+    let poolState: { sqrtPrice: string; grossPoolLiquidity: string };
+    let poolRequests: number;
+
+    function processed(txId: string, Data: unknown) {
+      FakeSocketClient.instances[0]!.emit('transaction', txId, {
+        status: 'PROCESSED',
+        transactionHash: `hash-${txId}`,
+        data: { transactionId: `hash-${txId}`, Data },
+      });
+    }
+
+    beforeEach(() => {
+      FakeSocketClient.instances = [];
+      Events.tradeEventEmitterConstructor = FakeSocketClient;
+
+      timers = new FakeTimers();
+      events = new Events();
+      poolState = { sqrtPrice: '1', grossPoolLiquidity: '1000000' };
+      poolRequests = 0;
+
+      const mockFetch: HttpRequestor = async () => {
+        poolRequests++;
+        const response = createMockGetPoolDataResponse(3000, 60);
+        Object.assign(response.Data, poolState);
+
+        return {
+          ok: true,
+          status: 200,
+          json: async () => response,
+          text: async () => JSON.stringify(response),
+        };
+      };
+
+      pools = new Pools(gatewayBaseUrl, dexContractBasePath, new HttpClient(mockFetch), {
+        events,
+      });
+    });
+
+    afterEach(() => {
+      events.disconnectEventSocket();
+      Events.tradeEventEmitterConstructor = originalConstructor;
+    });
+
+    it('should emit the pool transactions received through the event socket', async () => {
+      await events.connectEventSocket();
+      const subscription = await pools.subscribePool(
+        'SILK|Unit|none|none',
+        'GALA|Unit|none|none',
+        3000,
+        { timers },
+      );
+
+      const swaps: PoolSwapEvent[] = [];
+      const mints: PoolLiquidityEvent[] = [];
+      subscription.on('swap', (event: PoolSwapEvent) => swaps.push(event));
+      subscription.on('mint', (event: PoolLiquidityEvent) => mints.push(event));
+
+      poolState = { sqrtPrice: '1.01', grossPoolLiquidity: '1000000' };
+      processed('swap-tx', {
+        token0: 'GALA',
+        token0ImageUrl: 'https://static.gala.games/images/icons/units/gala.png',
+        token1: 'SILK',
+        token1ImageUrl: 'https://static.gala.games/images/icons/units/silk.png',
+        amount0: '-10',
+        amount1: '10.2',
+        userAddress: 'eth|123',
+        poolHash: galaSilkPoolHash,
+        poolAlias: `service|pool_${galaSilkPoolHash}`,
+        poolFee: 3000,
+        totalFees: '0.0306',
+        timeStamp: 1700000000000,
+      });
+      processed('other-pool-tx', {
+        token0: 'GALA',
+        token1: 'SILK',
+        amount0: '-10',
+        amount1: '10.2',
+        poolHash: 'b5a1c4e0f2d3',
+        poolAlias: 'service|pool_b5a1c4e0f2d3',
+        poolFee: 500,
+      });
+      await timers.advance(0);
+
+      expect(swaps).to.have.length(1);
+      expect(swaps[0]!.source).to.equal('socket');
+      expect(swaps[0]!.transactionId).to.equal('swap-tx');
+      expect(swaps[0]!.amount0?.toString()).to.equal('-10');
+      expect(swaps[0]!.previousSqrtPrice.toString()).to.equal('1');
+      expect(swaps[0]!.sqrtPrice.toString()).to.equal('1.01');
+      expect(subscription.sqrtPrice.toString()).to.equal('1.01');
+
+      // Liquidity results only identify the pool by its hash
+      poolState = { sqrtPrice: '1.01', grossPoolLiquidity: '1500000' };
+      processed('mint-tx', [
+        {
+          Status: 1,
+          Data: { poolHash: galaSilkPoolHash, positionId: 'position-1', amounts: ['5', '6'] },
+        },
+      ]);
+      await timers.advance(0);
+
+      expect(mints).to.have.length(1);
+      expect(mints[0]!.liquidityDelta.toString()).to.equal('500000');
+      expect(mints[0]!.positionId).to.equal('position-1');
+      expect(mints[0]!.amount1?.toString()).to.equal('6');
+      expect(poolRequests).to.equal(3);
+
+      subscription.unsubscribe();
+    });
+
+    it('should poll the pool while the event socket is not connected', async () => {
+      const controller = new AbortController();
+      const subscription = await pools.subscribePool(
+        'GALA|Unit|none|none',
+        'SILK|Unit|none|none',
+        3000,
+        { timers, pollIntervalMs: 1000, signal: controller.signal },
+      );
+
+      const events: Array<PoolSwapEvent | PoolLiquidityEvent> = [];
+      subscription.on('swap', (event: PoolSwapEvent) => events.push(event));
+      subscription.on('burn', (event: PoolLiquidityEvent) => events.push(event));
+
+      await timers.advance(1000);
+      expect(events).to.have.length(0);
+
+      poolState = { sqrtPrice: '0.99', grossPoolLiquidity: '800000' };
+      await timers.advance(1000);
+
+      expect(events.map((event) => [event.type, event.source])).to.deep.equal([
+        ['burn', 'poll'],
+        ['swap', 'poll'],
+      ]);
+      expect((events[0] as PoolLiquidityEvent).liquidityDelta.toString()).to.equal('-200000');
+      expect(events[1]!.amount0).to.equal(undefined);
+      expect(events[1]!.sqrtPrice.toString()).to.equal('0.99');
+
+      // Aborting the signal ends the subscription
+      controller.abort();
+      await timers.advance(5000);
+      expect(poolRequests).to.equal(3);
+    });
+  });
+});
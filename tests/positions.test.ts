@@ -138,6 +138,58 @@ describe('Positions', () => {
       expect(mockBundlerRequest.body.amount1Min?.toString()).to.equal('14');
     });
 
+    it('should default the tick spacing to the one configured for the fee tier', async () => {
+      await positions.addLiquidityByPrice({
+        walletAddress: 'eth|123...abc',
+        positionId: '',
+        token0: 'GALA|Unit|none|none',
+        token1: 'SILK|Unit|none|none',
+        fee: 10000,
+        minPrice: 5 as PriceIn,
+        maxPrice: 20 as PriceIn,
+        amount0Desired: '1',
+        amount1Desired: '1',
+        amount0Min: '1',
+        amount1Min: '1',
+      });
+
+      if (!mockBundlerRequest) {
+        throw new Error('Expected bundler request to be captured');
+      }
+
+      expect(mockBundlerRequest.body.tickLower).to.equal(16000);
+      expect(mockBundlerRequest.body.tickUpper).to.equal(29800);
+    });
+
+    it('should return the signed request without submitting it in dry-run mode', async () => {
+      const result = await positions.addLiquidityByPrice(
+        {
+          walletAddress: 'eth|123...abc',
+          positionId: '',
+          token0: 'GALA|Unit|none|none',
+          token1: 'SILK|Unit|none|none',
+          fee: 10000,
+          minPrice: 5 as PriceIn,
+          maxPrice: 20 as PriceIn,
+          amount0Desired: '1',
+          amount1Desired: '1',
+          amount0Min: '1',
+          amount1Min: '1',
+        },
+        { dryRun: true, includeUnsignedDto: true },
+      );
+
+      expect(mockBundlerRequest).to.equal(undefined);
+      expect(result.method).to.equal('AddLiquidity');
+      expect(result.signedDto.signature).to.be.a('string');
+      expect(result.signedDto.tickLower).to.equal(16000);
+      expect(result.unsignedDto).to.not.have.property('signature');
+      expect(result.unsignedDto?.uniqueKey).to.equal(result.signedDto.uniqueKey);
+      expect(result.stringsInstructions[0]).to.equal(
+        '$pool$GALA$Unit$none$none$SILK$Unit$none$none$10000',
+      );
+    });
+
     for (const [amount, spotPrice, minPrice, maxPrice, decimals1, decimals2, expected] of [
       [1000, 1, 0.016609256581247782, 0.018392722418891543, 8, 6, 0] as const,
       [1000, 1, 0, 1.993646755828574, 8, 6, 3427.387349] as const,
@@ -1,6 +1,8 @@
 import BigNumber from 'bignumber.js';
 import { expect } from 'chai';
+import { GSwapSDKError } from '../src/classes/gswap_sdk_error.js';
 import { HttpClient } from '../src/classes/http_client.js';
+import { Pools } from '../src/classes/pools.js';
 import { Quoting } from '../src/classes/quoting.js';
 import { FEE_TIER } from '../src/types/fees.js';
 import type { HttpRequestor } from '../src/types/http_requestor.js';
@@ -14,6 +16,64 @@ const poolNotFoundResponse = {
   },
 };
 
+const createMockGetCompositePoolResponse = (
+  token0: string,
+  token1: string,
+  fee: number,
+  sqrtPrice: string,
+) => ({
+  Status: 1,
+  Data: {
+    pool: {
+      token0: `${token0}|Unit|none|none`,
+      token1: `${token1}|Unit|none|none`,
+      token0ClassKey: {
+        collection: token0,
+        category: 'Unit',
+        type: 'none',
+        additionalKey: 'none',
+      },
+      token1ClassKey: {
+        collection: token1,
+        category: 'Unit',
+        type: 'none',
+        additionalKey: 'none',
+      },
+      fee,
+      sqrtPrice,
+      protocolFees: 0,
+      bitmap: {},
+      grossPoolLiquidity: '1000000',
+      liquidity: '1000000',
+      feeGrowthGlobal0: '0',
+      feeGrowthGlobal1: '0',
+      protocolFeesToken0: '0',
+      protocolFeesToken1: '0',
+      tickSpacing: 8,
+      maxLiquidityPerTick: '1000000000',
+    },
+    tickDataMap: {},
+    token0Balance: {
+      owner: 'eth|0x0000000000000000000000000000000000000000',
+      collection: token0,
+      category: 'Unit',
+      type: 'none',
+      additionalKey: 'none',
+      quantity: '1000000',
+    },
+    token1Balance: {
+      owner: 'eth|0x0000000000000000000000000000000000000000',
+      collection: token1,
+      category: 'Unit',
+      type: 'none',
+      additionalKey: 'none',
+      quantity: '1000000',
+    },
+    token0Decimals: 8,
+    token1Decimals: 6,
+  },
+});
+
 describe('Quoting', () => {
   let quoting: Quoting;
   let mockFetch: HttpRequestor;
@@ -948,4 +1008,525 @@ describe('Quoting', () => {
       }
     });
   });
+
+  describe('quoteExactInputRoute', () => {
+    it('should route through an intermediate token when there is no direct pool', async () => {
+      // Only GALA/SILK (1%) and GALA/GUSDC (0.05%) pools exist
+      const mockApiResponses: Record<string, unknown> = {
+        'GALA/SILK/10000': createMockGetCompositePoolResponse(
+          'GALA',
+          'SILK',
+          10000,
+          '2.127616971760491976',
+        ),
+        'GALA/GUSDC/500': createMockGetCompositePoolResponse('GALA', 'GUSDC', 500, '0.1264911064'),
+      };
+
+      const requestedPools: string[] = [];
+
+      mockFetch = async (url: string, options?: RequestInit) => {
+        expect(url).to.equal(`${gatewayBaseUrl}${dexContractBasePath}/GetCompositePool`);
+        const body = JSON.parse(options?.body as string);
+        const poolKey = `${body.token0.collection}/${body.token1.collection}/${body.fee}`;
+        requestedPools.push(poolKey);
+
+        const response = mockApiResponses[poolKey];
+        if (!response) {
+          return {
+            ok: false,
+            status: 404,
+            json: async () => poolNotFoundResponse,
+            text: async () => JSON.stringify(poolNotFoundResponse),
+          };
+        }
+
+        return {
+          ok: true,
+          status: 200,
+          json: async () => response,
+          text: async () => JSON.stringify(response),
+        };
+      };
+
+      const httpClient = new HttpClient(mockFetch);
+      quoting = new Quoting(gatewayBaseUrl, dexContractBasePath, httpClient);
+
+      const result = await quoting.quoteExactInputRoute(
+        'SILK|Unit|none|none',
+        'GUSDC|Unit|none|none',
+        '10',
+        { intermediateTokens: ['GALA|Unit|none|none'] },
+      );
+
+      expect(result.path).to.deep.equal([
+        'SILK|Unit|none|none',
+        'GALA|Unit|none|none',
+        'GUSDC|Unit|none|none',
+      ]);
+      expect(result.hops).to.have.length(2);
+      expect(result.hops[0]!.feeTier).to.equal(FEE_TIER.PERCENT_01_00);
+      expect(result.hops[1]!.feeTier).to.equal(FEE_TIER.PERCENT_00_05);
+      expect(result.inTokenAmount.toString()).to.equal('10');
+      expect(result.hops[1]!.inTokenAmount.toString()).to.equal(
+        result.hops[0]!.outTokenAmount.toString(),
+      );
+      expect(result.outTokenAmount.toString()).to.equal(result.hops[1]!.outTokenAmount.toString());
+      expect(result.priceImpact.toNumber()).to.be.lessThan(0);
+
+      // Each pool should only be requested once, even though several routes share it
+      expect(new Set(requestedPools).size).to.equal(requestedPools.length);
+    });
+
+    it('should skip routes that run out of liquidity', async () => {
+      // The direct SILK/GUSDC pool holds almost no GUSDC, so only the route through GALA can fill
+      const illiquidPool = createMockGetCompositePoolResponse('GUSDC', 'SILK', 500, '1');
+      illiquidPool.Data.token0Balance.quantity = '0.000001';
+
+      const mockApiResponses: Record<string, unknown> = {
+        'GALA/SILK/10000': createMockGetCompositePoolResponse(
+          'GALA',
+          'SILK',
+          10000,
+          '2.127616971760491976',
+        ),
+        'GALA/GUSDC/500': createMockGetCompositePoolResponse('GALA', 'GUSDC', 500, '0.1264911064'),
+        'GUSDC/SILK/500': illiquidPool,
+      };
+
+      mockFetch = async (_url: string, options?: RequestInit) => {
+        const body = JSON.parse(options?.body as string);
+        const response =
+          mockApiResponses[`${body.token0.collection}/${body.token1.collection}/${body.fee}`];
+
+        return response
+          ? {
+              ok: true,
+              status: 200,
+              json: async () => response,
+              text: async () => JSON.stringify(response),
+            }
+          : {
+              ok: false,
+              status: 404,
+              json: async () => poolNotFoundResponse,
+              text: async () => JSON.stringify(poolNotFoundResponse),
+            };
+      };
+
+      quoting = new Quoting(gatewayBaseUrl, dexContractBasePath, new HttpClient(mockFetch));
+
+      const result = await quoting.quoteExactInputRoute(
+        'SILK|Unit|none|none',
+        'GUSDC|Unit|none|none',
+        '10',
+        { intermediateTokens: ['GALA|Unit|none|none'] },
+      );
+
+      expect(result.path).to.deep.equal([
+        'SILK|Unit|none|none',
+        'GALA|Unit|none|none',
+        'GUSDC|Unit|none|none',
+      ]);
+    });
+
+    it('should throw error when no route is available', async () => {
+      mockFetch = async () => ({
+        ok: false,
+        status: 404,
+        json: async () => poolNotFoundResponse,
+        text: async () => JSON.stringify(poolNotFoundResponse),
+      });
+
+      const httpClient = new HttpClient(mockFetch);
+      quoting = new Quoting(gatewayBaseUrl, dexContractBasePath, httpClient);
+
+      try {
+        await quoting.quoteExactInputRoute(
+          'SILK|Unit|none|none',
+          'NONEXISTENT|Unit|none|none',
+          '1',
+        );
+        expect.fail('Should have thrown an error');
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        expect(errorMessage).to.include('No pools available');
+      }
+    });
+  });
+
+  describe('quoteExactInputSplit', () => {
+    function mockPools(pools: Record<string, unknown>) {
+      mockFetch = async (_url: string, options?: RequestInit) => {
+        const body = JSON.parse(options?.body as string);
+        const response = pools[`${body.token0.collection}/${body.token1.collection}/${body.fee}`];
+
+        return response
+          ? {
+              ok: true,
+              status: 200,
+              json: async () => response,
+              text: async () => JSON.stringify(response),
+            }
+          : {
+              ok: false,
+              status: 404,
+              json: async () => poolNotFoundResponse,
+              text: async () => JSON.stringify(poolNotFoundResponse),
+            };
+      };
+
+      quoting = new Quoting(gatewayBaseUrl, dexContractBasePath, new HttpClient(mockFetch));
+    }
+
+    function createIlliquidPool(fee: number) {
+      // The pool holds almost no SILK, so it can't fill a swap from GALA
+      const pool = createMockGetCompositePoolResponse('GALA', 'SILK', fee, '2.127616971760491976');
+      pool.Data.token1Balance.quantity = '0.000001';
+      return pool;
+    }
+
+    it('should leave out fee tiers that run out of liquidity', async () => {
+      mockPools({
+        'GALA/SILK/3000': createMockGetCompositePoolResponse(
+          'GALA',
+          'SILK',
+          3000,
+          '2.127616971760491976',
+        ),
+        'GALA/SILK/10000': createIlliquidPool(10000),
+      });
+
+      const result = await quoting.quoteExactInputSplit(
+        'GALA|Unit|none|none',
+        'SILK|Unit|none|none',
+        '10',
+        { steps: 4 },
+      );
+
+      expect(result.splits.map((split) => split.feeTier)).to.deep.equal([FEE_TIER.PERCENT_00_30]);
+      expect(result.inTokenAmount.toString()).to.equal('10');
+    });
+
+    it('should throw when no fee tier has enough liquidity', async () => {
+      mockPools({ 'GALA/SILK/10000': createIlliquidPool(10000) });
+
+      const error = await quoting
+        .quoteExactInputSplit('GALA|Unit|none|none', 'SILK|Unit|none|none', '10')
+        .catch((error: unknown) => error);
+
+      expect(error).to.be.instanceOf(GSwapSDKError);
+      expect((error as GSwapSDKError).code).to.equal('INSUFFICIENT_LIQUIDITY');
+    });
+  });
+
+  describe('getPoolSnapshot', () => {
+    const mockGetCompositePoolResponse = createMockGetCompositePoolResponse(
+      'GALA',
+      'SILK',
+      10000,
+      '2.127616971760491976',
+    );
+
+    it('should quote many amounts against a single pool fetch', async () => {
+      let fetchCount = 0;
+
+      mockFetch = async () => {
+        fetchCount++;
+        return {
+          ok: true,
+          status: 200,
+          json: async () => mockGetCompositePoolResponse,
+          text: async () => JSON.stringify(mockGetCompositePoolResponse),
+        };
+      };
+
+      const httpClient = new HttpClient(mockFetch);
+      quoting = new Quoting(gatewayBaseUrl, dexContractBasePath, httpClient);
+
+      const snapshot = await quoting.getPoolSnapshot(
+        'SILK|Unit|none|none',
+        'GALA|Unit|none|none',
+        FEE_TIER.PERCENT_01_00,
+      );
+
+      expect(snapshot.token0).to.equal('GALA|Unit|none|none');
+      expect(snapshot.token1).to.equal('SILK|Unit|none|none');
+      expect(snapshot.capturedAt).to.be.an.instanceOf(Date);
+
+      const small = await snapshot.quoteExactInput('GALA|Unit|none|none', 'SILK|Unit|none|none', 1);
+      const large = await snapshot.quoteExactInput(
+        'GALA|Unit|none|none',
+        'SILK|Unit|none|none',
+        10,
+      );
+      const reverse = await snapshot.quoteExactOutput(
+        'SILK|Unit|none|none',
+        'GALA|Unit|none|none',
+        1,
+      );
+
+      expect(small.inTokenAmount.toString()).to.equal('1');
+      expect(small.feeAmount.toString()).to.equal('0.01');
+      expect(small.ticksCrossed).to.equal(0);
+      expect(small.liquiditySegments).to.have.length(1);
+      expect(small.executionPrice.toString()).to.equal(small.outTokenAmount.toString());
+      expect(small.executionPriceImpact.toNumber()).to.be.lessThan(0);
+      expect(large.outTokenAmount.isGreaterThan(small.outTokenAmount)).to.equal(true);
+      expect(reverse.outTokenAmount.toString()).to.equal('1');
+      expect(fetchCount).to.equal(1);
+
+      await snapshot.refresh();
+      expect(fetchCount).to.equal(2);
+    });
+
+    it('should reject tokens that are not in the pool', async () => {
+      mockFetch = async () => ({
+        ok: true,
+        status: 200,
+        json: async () => mockGetCompositePoolResponse,
+        text: async () => JSON.stringify(mockGetCompositePoolResponse),
+      });
+
+      const httpClient = new HttpClient(mockFetch);
+      quoting = new Quoting(gatewayBaseUrl, dexContractBasePath, httpClient);
+
+      const snapshot = await quoting.getPoolSnapshot(
+        'GALA|Unit|none|none',
+        'SILK|Unit|none|none',
+        FEE_TIER.PERCENT_01_00,
+      );
+
+      try {
+        await snapshot.quoteExactInput('GALA|Unit|none|none', 'GUSDC|Unit|none|none', 1);
+        expect.fail('Should have thrown an error');
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        expect(errorMessage).to.include('does not match the pool');
+      }
+    });
+  });
+
+  describe('getLiquidityDepth', () => {
+    it('should report how much can be sold before the price moves', async () => {
+      const mockGetCompositePoolResponse = createMockGetCompositePoolResponse(
+        'GALA',
+        'SILK',
+        10000,
+        '2.127616971760491976',
+      );
+
+      mockFetch = async () => ({
+        ok: true,
+        status: 200,
+        json: async () => mockGetCompositePoolResponse,
+        text: async () => JSON.stringify(mockGetCompositePoolResponse),
+      });
+
+      const httpClient = new HttpClient(mockFetch);
+      quoting = new Quoting(gatewayBaseUrl, dexContractBasePath, httpClient);
+
+      const depth = await quoting.getLiquidityDepth(
+        'GALA|Unit|none|none',
+        'SILK|Unit|none|none',
+        FEE_TIER.PERCENT_01_00,
+      );
+
+      expect(depth.tokenIn).to.equal('GALA|Unit|none|none');
+      expect(depth.tokenOut).to.equal('SILK|Unit|none|none');
+      expect(depth.levels).to.have.length(4);
+      expect(depth.levels[1]!.priceImpact.toNumber()).to.be.closeTo(-0.01, 0.0001);
+
+      for (let i = 1; i < depth.levels.length; i++) {
+        expect(
+          depth.levels[i]!.inTokenAmount.isGreaterThan(depth.levels[i - 1]!.inTokenAmount),
+        ).to.equal(true);
+      }
+
+      expect(depth.curve).to.have.length(20);
+      expect(depth.curve[19]!.inTokenAmount.toString()).to.equal(
+        depth.levels[3]!.inTokenAmount.toString(),
+      );
+    });
+  });
+
+  describe('previewLimitSwap', () => {
+    it('should report a partial fill when the price reaches the limit', async () => {
+      const mockGetCompositePoolResponse = createMockGetCompositePoolResponse(
+        'GALA',
+        'SILK',
+        10000,
+        '2.127616971760491976',
+      );
+
+      mockFetch = async () => ({
+        ok: true,
+        status: 200,
+        json: async () => mockGetCompositePoolResponse,
+        text: async () => JSON.stringify(mockGetCompositePoolResponse),
+      });
+
+      const httpClient = new HttpClient(mockFetch);
+      quoting = new Quoting(gatewayBaseUrl, dexContractBasePath, httpClient);
+
+      const snapshot = await quoting.getPoolSnapshot(
+        'GALA|Unit|none|none',
+        'SILK|Unit|none|none',
+        FEE_TIER.PERCENT_01_00,
+      );
+      const depth = snapshot.getLiquidityDepth('GALA|Unit|none|none', 'SILK|Unit|none|none', {
+        priceImpacts: [0.01],
+      });
+      const limitPrice = depth.currentPrice.multipliedBy(0.99);
+
+      const partial = snapshot.previewLimitSwap('GALA|Unit|none|none', 'SILK|Unit|none|none', {
+        exactIn: depth.levels[0]!.inTokenAmount.multipliedBy(2),
+        limitPrice,
+      });
+
+      expect(partial.isFullyFilled).to.equal(false);
+      expect(partial.newPrice.toNumber()).to.be.closeTo(limitPrice.toNumber(), 1e-9);
+      expect(partial.fillRatio.toNumber()).to.be.closeTo(0.5, 0.001);
+
+      const full = snapshot.previewLimitSwap('GALA|Unit|none|none', 'SILK|Unit|none|none', {
+        exactIn: depth.levels[0]!.inTokenAmount.dividedBy(2),
+        limitPrice,
+      });
+
+      expect(full.isFullyFilled).to.equal(true);
+      expect(full.fillRatio.toNumber()).to.equal(1);
+      expect(full.inTokenAmount.toString()).to.equal(
+        depth.levels[0]!.inTokenAmount.dividedBy(2).toString(),
+      );
+    });
+  });
+
+  describe('maxInputForPriceImpact', () => {
+    it('should return the largest input that stays within the price impact limit', async () => {
+      const mockGetCompositePoolResponse = createMockGetCompositePoolResponse(
+        'GALA',
+        'SILK',
+        10000,
+        '2.127616971760491976',
+      );
+
+      mockFetch = async () => ({
+        ok: true,
+        status: 200,
+        json: async () => mockGetCompositePoolResponse,
+        text: async () => JSON.stringify(mockGetCompositePoolResponse),
+      });
+
+      const httpClient = new HttpClient(mockFetch);
+      quoting = new Quoting(gatewayBaseUrl, dexContractBasePath, httpClient);
+
+      const result = await quoting.maxInputForPriceImpact(
+        'GALA|Unit|none|none',
+        'SILK|Unit|none|none',
+        0.01,
+        FEE_TIER.PERCENT_01_00,
+      );
+
+      expect(result.feeTier).to.equal(FEE_TIER.PERCENT_01_00);
+      expect(result.priceImpact.abs().toNumber()).to.be.at.most(0.01);
+      expect(result.priceImpact.abs().toNumber()).to.be.closeTo(0.01, 0.0001);
+    });
+
+    it('should report a pool that cannot fill any amount within the limit', async () => {
+      // The pool holds a single unit of SILK, which any swap large enough to move the price would take
+      const mockGetCompositePoolResponse = createMockGetCompositePoolResponse(
+        'GALA',
+        'SILK',
+        10000,
+        '2.127616971760491976',
+      );
+      mockGetCompositePoolResponse.Data.token1Balance.quantity = '0.000001';
+
+      mockFetch = async () => ({
+        ok: true,
+        status: 200,
+        json: async () => mockGetCompositePoolResponse,
+        text: async () => JSON.stringify(mockGetCompositePoolResponse),
+      });
+
+      quoting = new Quoting(gatewayBaseUrl, dexContractBasePath, new HttpClient(mockFetch));
+
+      const error = await quoting
+        .maxInputForPriceImpact(
+          'GALA|Unit|none|none',
+          'SILK|Unit|none|none',
+          0.5,
+          FEE_TIER.PERCENT_01_00,
+        )
+        .catch((error: unknown) => error);
+
+      expect(error).to.be.instanceOf(GSwapSDKError);
+      expect((error as GSwapSDKError).code).to.equal('INSUFFICIENT_LIQUIDITY');
+    });
+
+    it('should reject a price impact that is not a fraction', async () => {
+      try {
+        await quoting.maxInputForPriceImpact('GALA|Unit|none|none', 'SILK|Unit|none|none', 5);
+        expect.fail('Should have thrown an error');
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        expect(errorMessage).to.include('Invalid maxImpact');
+      }
+    });
+  });
+
+  describe('fee tier discovery', () => {
+    it('should only quote fee tiers that have a pool for the pair', async () => {
+      const mockGetCompositePoolResponse = createMockGetCompositePoolResponse(
+        'GALA',
+        'SILK',
+        10000,
+        '2.127616971760491976',
+      );
+      const requestedEndpoints: string[] = [];
+
+      mockFetch = async (url: string, options?: RequestInit) => {
+        const body = JSON.parse(options?.body as string);
+        const endpoint = url.replace(`${gatewayBaseUrl}${dexContractBasePath}`, '');
+        requestedEndpoints.push(`${endpoint}/${body.fee}`);
+
+        if (body.fee !== 10000) {
+          return {
+            ok: false,
+            status: 404,
+            json: async () => poolNotFoundResponse,
+            text: async () => JSON.stringify(poolNotFoundResponse),
+          };
+        }
+
+        const response =
+          endpoint === '/GetPoolData'
+            ? { Status: 1, Data: { ...mockGetCompositePoolResponse.Data.pool } }
+            : mockGetCompositePoolResponse;
+
+        return {
+          ok: true,
+          status: 200,
+          json: async () => response,
+          text: async () => JSON.stringify(response),
+        };
+      };
+
+      const httpClient = new HttpClient(mockFetch);
+      const pools = new Pools(gatewayBaseUrl, dexContractBasePath, httpClient);
+      quoting = new Quoting(gatewayBaseUrl, dexContractBasePath, httpClient, {
+        poolService: pools,
+        discoverFeeTiers: true,
+      });
+
+      await quoting.quoteExactInput('GALA|Unit|none|none', 'SILK|Unit|none|none', '1');
+      await quoting.quoteExactInput('GALA|Unit|none|none', 'SILK|Unit|none|none', '2');
+
+      expect(
+        requestedEndpoints.filter((endpoint) => endpoint.startsWith('/GetPoolData')),
+      ).to.have.length(3);
+      expect(
+        requestedEndpoints.filter((endpoint) => endpoint.startsWith('/GetCompositePool')),
+      ).to.deep.equal(['/GetCompositePool/10000', '/GetCompositePool/10000']);
+    });
+  });
 });
@@ -0,0 +1,420 @@
+import BigNumber from 'bignumber.js';
+import { expect } from 'chai';
+import { Bundler } from '../src/classes/bundler.js';
+import { GSwapSDKError } from '../src/classes/gswap_sdk_error.js';
+import { HttpClient } from '../src/classes/http_client.js';
+import type { Quoting } from '../src/classes/quoting.js';
+import { GalaChainSigner } from '../src/classes/signers.js';
+import { Swaps } from '../src/classes/swaps.js';
+import type { Price, SqrtPrice } from '../src/types/amounts.js';
+import type { HttpRequestor } from '../src/types/http_requestor.js';
+import type {
+  GetRouteQuoteResult,
+  GetSplitQuoteResult,
+  RouteQuoteHop,
+} from '../src/types/sdk_results.js';
+
+interface MockBundlerRequest {
+  method: string;
+  body: Record<string, unknown>;
+  stringsInstructions: string[];
+}
+
+class MockSigner implements GalaChainSigner {
+  async signObject<TObjectType extends Record<string, unknown>>(
+    _methodName: string,
+    obj: TObjectType,
+  ): Promise<TObjectType & { signature: string }> {
+    return { ...obj, signature: 'mock-signature' };
+  }
+}
+
+function createHop(
+  tokenIn: string,
+  tokenOut: string,
+  feeTier: number,
+  inTokenAmount: string,
+  outTokenAmount: string,
+): RouteQuoteHop {
+  return {
+    tokenIn,
+    tokenOut,
+    feeTier,
+    amount0: BigNumber(0),
+    amount1: BigNumber(0),
+    currentPoolSqrtPrice: BigNumber(1) as SqrtPrice,
+    newPoolSqrtPrice: BigNumber(1) as SqrtPrice,
+    currentPrice: BigNumber(1) as Price,
+    newPrice: BigNumber(1) as Price,
+    inTokenAmount: BigNumber(inTokenAmount),
+    outTokenAmount: BigNumber(outTokenAmount),
+    inTokenDecimals: 8,
+    outTokenDecimals: 8,
+    priceImpact: BigNumber(0),
+    feeAmount: BigNumber(0),
+    executionPrice: BigNumber(outTokenAmount).dividedBy(inTokenAmount) as Price,
+    executionPriceImpact: BigNumber(0),
+    ticksCrossed: 0,
+    liquiditySegments: [],
+  };
+}
+
+function createRoute(hops: RouteQuoteHop[]): GetRouteQuoteResult {
+  return {
+    path: [hops[0]!.tokenIn, ...hops.map((hop) => hop.tokenOut)],
+    hops,
+    inTokenAmount: hops[0]!.inTokenAmount,
+    outTokenAmount: hops[hops.length - 1]!.outTokenAmount,
+    priceImpact: BigNumber(0),
+  };
+}
+
+describe('Swaps', () => {
+  let swaps: Swaps;
+  let mockFetch: HttpRequestor;
+  let mockBundlerRequest: MockBundlerRequest | undefined;
+  let bundler: Bundler;
+  const bundlerBaseUrl = 'https://bundler.galaswap.gala.com';
+  const bundlingAPIBasePath = '/bundling-api';
+  const walletAddress = 'eth|123...abc';
+
+  beforeEach(() => {
+    mockBundlerRequest = undefined;
+
+    mockFetch = async (url: string, options?: RequestInit): Promise<Response> => {
+      const body = JSON.parse((options?.body as string) || '{}');
+
+      if (url.includes('/bundling-api')) {
+        mockBundlerRequest = {
+          method: body.method,
+          body: body.signedDto,
+          stringsInstructions: body.stringsInstructions,
+        };
+
+        return new Response(
+          JSON.stringify({
+            data: 'mock-tx-id-12345',
+            message: 'Transaction submitted successfully',
+            error: false,
+          }),
+          {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' },
+          },
+        );
+      }
+
+      throw new Error(`Mock fetch not configured for URL: ${url}`);
+    };
+
+    const httpClient = new HttpClient(mockFetch);
+    bundler = new Bundler(bundlerBaseUrl, bundlingAPIBasePath, 30000, new MockSigner(), httpClient);
+
+    swaps = new Swaps(bundler, { walletAddress });
+  });
+
+  describe('swap', () => {
+    it('should build an exact input swap for GALA to SILK', async () => {
+      await swaps.swap('GALA|Unit|none|none', 'SILK|Unit|none|none', 10000, {
+        exactIn: '100',
+        amountOutMinimum: '450',
+      });
+
+      if (!mockBundlerRequest) {
+        throw new Error('Expected bundler request to be captured');
+      }
+
+      expect(mockBundlerRequest.method).to.equal('Swap');
+      expect(mockBundlerRequest.body.zeroForOne).to.equal(true);
+      expect(mockBundlerRequest.body.amount).to.equal('100');
+      expect(mockBundlerRequest.body.amountOutMinimum).to.equal('-450');
+      expect(mockBundlerRequest.body.amountInMaximum).to.equal('100');
+      expect(mockBundlerRequest.stringsInstructions).to.deep.equal([
+        '$pool$GALA$Unit$none$none$SILK$Unit$none$none$10000',
+        '$tokenBalance$GALA$Unit$none$none$eth|123...abc',
+        '$tokenBalance$SILK$Unit$none$none$eth|123...abc',
+        '$tokenBalance$GALA$Unit$none$none$$pool$GALA$Unit$none$none$SILK$Unit$none$none$10000',
+        '$tokenBalance$SILK$Unit$none$none$$pool$GALA$Unit$none$none$SILK$Unit$none$none$10000',
+      ]);
+    });
+
+    it('should convert a limit price to a sqrt price limit in the swap direction', async () => {
+      await swaps.swap('GALA|Unit|none|none', 'SILK|Unit|none|none', 10000, {
+        exactIn: '100',
+        limitPrice: '4',
+      });
+
+      expect(mockBundlerRequest?.body.zeroForOne).to.equal(true);
+      expect(mockBundlerRequest?.body.sqrtPriceLimit).to.equal('2');
+
+      await swaps.swap('SILK|Unit|none|none', 'GALA|Unit|none|none', 10000, {
+        exactOut: '100',
+        limitPrice: '0.25',
+      });
+
+      expect(mockBundlerRequest?.body.zeroForOne).to.equal(false);
+      expect(mockBundlerRequest?.body.sqrtPriceLimit).to.equal('2');
+    });
+
+    it('should allow exact output swaps with a limit price to partially fill', async () => {
+      await swaps.swap(
+        'GALA|Unit|none|none',
+        'SILK|Unit|none|none',
+        10000,
+        { exactOut: '450', amountInMaximum: '105', limitPrice: '4' },
+        walletAddress,
+      );
+
+      if (!mockBundlerRequest) {
+        throw new Error('Expected bundler request to be captured');
+      }
+
+      expect(mockBundlerRequest.body.amount).to.equal('-450');
+      expect(mockBundlerRequest.body.amountInMaximum).to.equal('105');
+      expect(mockBundlerRequest.body).to.not.have.property('amountOutMinimum');
+    });
+
+    it('should return the signed request without submitting it in dry-run mode', async () => {
+      const result = await swaps.swap(
+        'GALA|Unit|none|none',
+        'SILK|Unit|none|none',
+        10000,
+        { exactIn: '100', amountOutMinimum: '450' },
+        undefined,
+        { dryRun: true },
+      );
+
+      expect(mockBundlerRequest).to.equal(undefined);
+      expect(result.method).to.equal('Swap');
+      expect(result.signedDto.amount).to.equal('100');
+      expect(result.signedDto.signature).to.be.a('string');
+      expect(result.unsignedDto).to.equal(undefined);
+      expect(result.stringsInstructions).to.have.length(5);
+    });
+
+    it('should use the widest sqrt price limit without a limit price', async () => {
+      await swaps.swap('SILK|Unit|none|none', 'GALA|Unit|none|none', 10000, { exactIn: '100' });
+
+      expect(mockBundlerRequest?.body.sqrtPriceLimit).to.equal('18446050999999999999');
+    });
+  });
+
+  describe('swapRoute', () => {
+    it('should submit a single hop route as a regular swap', async () => {
+      const route = createRoute([
+        createHop('GALA|Unit|none|none', 'SILK|Unit|none|none', 10000, '100', '450'),
+      ]);
+
+      await swaps.swapRoute(route, { amountOutMinimum: '440' });
+
+      if (!mockBundlerRequest) {
+        throw new Error('Expected bundler request to be captured');
+      }
+
+      expect(mockBundlerRequest.method).to.equal('Swap');
+      expect(mockBundlerRequest.body.amount).to.equal('100');
+      expect(mockBundlerRequest.body.amountOutMinimum).to.equal('-440');
+    });
+
+    it('should submit a multi-hop exact input route as one atomic batch', async () => {
+      const route = createRoute([
+        createHop('SILK|Unit|none|none', 'GALA|Unit|none|none', 10000, '100', '20'),
+        createHop('GALA|Unit|none|none', 'GUSDC|Unit|none|none', 500, '20', '0.5'),
+      ]);
+
+      await swaps.swapRoute(route, { amountOutMinimum: '0.49' });
+
+      if (!mockBundlerRequest) {
+        throw new Error('Expected bundler request to be captured');
+      }
+
+      expect(mockBundlerRequest.method).to.equal('BatchSubmit');
+      expect(mockBundlerRequest.body.noPartialSuccess).to.equal(true);
+
+      const operations = mockBundlerRequest.body.operations as Array<{
+        method: string;
+        dto: Record<string, unknown>;
+      }>;
+
+      expect(operations).to.have.length(2);
+      expect(operations.map((operation) => operation.method)).to.deep.equal(['Swap', 'Swap']);
+
+      const [firstHop, secondHop] = operations.map((operation) => operation.dto);
+
+      // SILK -> GALA sells token1 for token0
+      expect(firstHop!.zeroForOne).to.equal(false);
+      expect(firstHop!.amount).to.equal('100');
+
+      // The second hop sells the full quoted output of the first hop, which must buy at least that much
+      expect(firstHop!.amountOutMinimum).to.equal('-20');
+      expect(secondHop!.zeroForOne).to.equal(true);
+      expect(secondHop!.amount).to.equal('20');
+      expect(secondHop!.amountOutMinimum).to.equal('-0.49');
+
+      expect(firstHop!.uniqueKey).to.not.equal(secondHop!.uniqueKey);
+
+      expect(mockBundlerRequest.stringsInstructions).to.include(
+        '$pool$GALA$Unit$none$none$SILK$Unit$none$none$10000',
+      );
+      expect(mockBundlerRequest.stringsInstructions).to.include(
+        '$pool$GALA$Unit$none$none$GUSDC$Unit$none$none$500',
+      );
+      expect(new Set(mockBundlerRequest.stringsInstructions).size).to.equal(
+        mockBundlerRequest.stringsInstructions.length,
+      );
+    });
+
+    it('should submit a multi-hop exact output route as one atomic batch', async () => {
+      const route = createRoute([
+        createHop('SILK|Unit|none|none', 'GALA|Unit|none|none', 10000, '100', '20'),
+        createHop('GALA|Unit|none|none', 'GUSDC|Unit|none|none', 500, '20', '0.5'),
+      ]);
+
+      await swaps.swapRoute(route, { amountInMaximum: '102' });
+
+      if (!mockBundlerRequest) {
+        throw new Error('Expected bundler request to be captured');
+      }
+
+      const operations = mockBundlerRequest.body.operations as Array<{
+        method: string;
+        dto: Record<string, unknown>;
+      }>;
+
+      const [firstHop, secondHop] = operations.map((operation) => operation.dto);
+
+      // The first hop buys exactly the quoted input of the second hop
+      expect(secondHop!.amount).to.equal('-0.5');
+      expect(secondHop!.amountInMaximum).to.equal('20');
+      expect(firstHop!.amount).to.equal('-20');
+      expect(firstHop!.amountInMaximum).to.equal('102');
+    });
+
+    it('should reject routes through an invalid fee tier', async () => {
+      const route = createRoute([
+        createHop('SILK|Unit|none|none', 'GALA|Unit|none|none', 10000, '100', '20'),
+        createHop('GALA|Unit|none|none', 'GUSDC|Unit|none|none', -500, '20', '0.5'),
+      ]);
+
+      const error = await swaps
+        .swapRoute(route, { amountOutMinimum: '0.49' })
+        .catch((error: unknown) => error);
+
+      expect((error as GSwapSDKError).code).to.equal('VALIDATION_ERROR');
+      expect(mockBundlerRequest).to.equal(undefined);
+    });
+  });
+
+  describe('swapSplit', () => {
+    it('should submit every part of a split as one atomic batch', async () => {
+      const split: GetSplitQuoteResult = {
+        tokenIn: 'GALA|Unit|none|none',
+        tokenOut: 'SILK|Unit|none|none',
+        splits: [
+          createHop('GALA|Unit|none|none', 'SILK|Unit|none|none', 500, '60', '270'),
+          createHop('GALA|Unit|none|none', 'SILK|Unit|none|none', 3000, '40', '180'),
+        ],
+        inTokenAmount: BigNumber(100),
+        outTokenAmount: BigNumber(450),
+      };
+
+      await swaps.swapSplit(split, { amountOutMinimum: '441' });
+
+      if (!mockBundlerRequest) {
+        throw new Error('Expected bundler request to be captured');
+      }
+
+      expect(mockBundlerRequest.method).to.equal('BatchSubmit');
+
+      const operations = mockBundlerRequest.body.operations as Array<{
+        method: string;
+        dto: Record<string, unknown>;
+      }>;
+
+      const [firstPart, secondPart] = operations.map((operation) => operation.dto);
+
+      expect(firstPart!.fee).to.equal(500);
+      expect(firstPart!.amount).to.equal('60');
+      expect(firstPart!.amountOutMinimum).to.equal('-264.6');
+      expect(secondPart!.fee).to.equal(3000);
+      expect(secondPart!.amount).to.equal('40');
+      expect(secondPart!.amountOutMinimum).to.equal('-176.4');
+    });
+  });
+
+  describe('swapWithSlippage', () => {
+    const mockQuoting = {
+      quoteExactInput: async () =>
+        createHop('GALA|Unit|none|none', 'SILK|Unit|none|none', 3000, '100', '450'),
+      quoteExactOutput: async () =>
+        createHop('GALA|Unit|none|none', 'SILK|Unit|none|none', 3000, '100', '450'),
+    } as unknown as Quoting;
+
+    beforeEach(() => {
+      swaps = new Swaps(bundler, { walletAddress, quotingService: mockQuoting });
+    });
+
+    it('should derive the minimum output from the quote and slippage tolerance', async () => {
+      const result = await swaps.swapWithSlippage({
+        tokenIn: 'GALA|Unit|none|none',
+        tokenOut: 'SILK|Unit|none|none',
+        exactIn: '100',
+        slippageBps: 50,
+      });
+
+      if (!mockBundlerRequest) {
+        throw new Error('Expected bundler request to be captured');
+      }
+
+      expect(result.quote.feeTier).to.equal(3000);
+      expect(result.amountOutMinimum?.toString()).to.equal('447.75');
+      expect(result.transaction.transactionId).to.equal('mock-tx-id-12345');
+      expect(mockBundlerRequest.body.fee).to.equal(3000);
+      expect(mockBundlerRequest.body.amountOutMinimum).to.equal('-447.75');
+    });
+
+    it('should derive the maximum input for exact output swaps', async () => {
+      const result = await swaps.swapWithSlippage({
+        tokenIn: 'GALA|Unit|none|none',
+        tokenOut: 'SILK|Unit|none|none',
+        exactOut: '450',
+        slippageBps: 100,
+      });
+
+      if (!mockBundlerRequest) {
+        throw new Error('Expected bundler request to be captured');
+      }
+
+      expect(result.amountInMaximum?.toString()).to.equal('101');
+      expect(mockBundlerRequest.body.amount).to.equal('-450');
+      expect(mockBundlerRequest.body.amountInMaximum).to.equal('101');
+    });
+
+    it('should refuse to trade above the price impact limit', async () => {
+      swaps = new Swaps(bundler, {
+        walletAddress,
+        quotingService: {
+          quoteExactInput: async () => ({
+            ...createHop('GALA|Unit|none|none', 'SILK|Unit|none|none', 3000, '100', '450'),
+            priceImpact: BigNumber(-0.05),
+          }),
+        } as unknown as Quoting,
+      });
+
+      try {
+        await swaps.swapWithSlippage({
+          tokenIn: 'GALA|Unit|none|none',
+          tokenOut: 'SILK|Unit|none|none',
+          exactIn: '100',
+          slippageBps: 50,
+          maxPriceImpact: 0.02,
+        });
+        expect.fail('Should have thrown an error');
+      } catch (error: unknown) {
+        expect((error as { code?: string }).code).to.equal('PRICE_IMPACT_TOO_HIGH');
+      }
+
+      expect(mockBundlerRequest).to.equal(undefined);
+    });
+  });
+});
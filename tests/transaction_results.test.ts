@@ -0,0 +1,115 @@
+import { expect } from 'chai';
+import { GSwapSDKError } from '../src/classes/gswap_sdk_error.js';
+import { PendingTransaction } from '../src/classes/pending_transaction.js';
+import {
+  decodeLiquidityResult,
+  decodeRouteSwapResult,
+  decodeSwapResult,
+} from '../src/utils/transaction_results.js';
+
+describe('Transaction result decoding', () => {
+  describe('decodeSwapResult', () => {
+    it('should decode the amounts of a swap from the pool side', () => {
+      const result = decodeSwapResult({
+        token0: 'GALA',
+        token1: 'GUSDC',
+        amount0: '-45.123456',
+        amount1: '100',
+        poolHash: 'pool-hash',
+        userAddress: 'eth|123...abc',
+      });
+
+      expect(result.inTokenAmount.toString()).to.equal('100');
+      expect(result.outTokenAmount.toString()).to.equal('45.123456');
+      expect(result.swaps).to.have.length(1);
+      expect(result.swaps[0]!.poolHash).to.equal('pool-hash');
+      expect(result.swaps[0]!.amount0.toString()).to.equal('-45.123456');
+    });
+
+    it('should add up the parts of a split order', () => {
+      const result = decodeSwapResult([
+        { Status: 1, Data: { amount0: '600', amount1: '-300' } },
+        { Status: 1, Data: { amount0: '400', amount1: '-190' } },
+      ]);
+
+      expect(result.inTokenAmount.toString()).to.equal('1000');
+      expect(result.outTokenAmount.toString()).to.equal('490');
+      expect(result.swaps).to.have.length(2);
+    });
+
+    it('should reject results without amounts', () => {
+      expect(() => decodeSwapResult({ amount0: '100' })).to.throw(
+        'Unexpected transaction result: amount1 must be a number',
+      );
+    });
+  });
+
+  describe('decodeRouteSwapResult', () => {
+    it('should take the input of the first hop and the output of the last hop', () => {
+      const result = decodeRouteSwapResult([
+        { Status: 1, Data: { amount0: '100', amount1: '-50' } },
+        { Status: 1, Data: { amount0: '-0.02', amount1: '49.9' } },
+      ]);
+
+      expect(result.inTokenAmount.toString()).to.equal('100');
+      expect(result.outTokenAmount.toString()).to.equal('0.02');
+    });
+  });
+
+  describe('decodeLiquidityResult', () => {
+    it('should decode the position and amounts', () => {
+      const result = decodeLiquidityResult({
+        positionId: 'new-position-id',
+        poolHash: 'pool-hash',
+        amounts: ['100', '49.5'],
+        userBalanceDelta: {},
+      });
+
+      expect(result.positionId).to.equal('new-position-id');
+      expect(result.amount0.toString()).to.equal('100');
+      expect(result.amount1.toString()).to.equal('49.5');
+    });
+  });
+
+  describe('PendingTransaction', () => {
+    it('should resolve with the raw response and the decoded result', async () => {
+      const transaction = new PendingTransaction(
+        'tx-1',
+        'ok',
+        false,
+        async () => ({
+          txId: 'tx-1',
+          transactionHash: 'hash',
+          Data: { amount0: '100', amount1: '-45' },
+        }),
+        decodeSwapResult,
+      );
+
+      const result = await transaction.wait();
+
+      expect(result.txId).to.equal('tx-1');
+      expect(result.Data.amount0).to.equal('100');
+      expect(result.outTokenAmount.toString()).to.equal('45');
+    });
+
+    it('should include the transaction in decoding errors', async () => {
+      const transaction = new PendingTransaction(
+        'tx-1',
+        'ok',
+        false,
+        async () => ({ txId: 'tx-1', transactionHash: 'hash', Data: {} }),
+        decodeLiquidityResult,
+      );
+
+      try {
+        await transaction.wait();
+        expect.fail('Should have thrown an error');
+      } catch (error: unknown) {
+        expect(error).to.be.instanceOf(GSwapSDKError);
+        expect((error as GSwapSDKError).code).to.equal('UNEXPECTED_TRANSACTION_RESULT');
+        expect((error as GSwapSDKError).details?.txId).to.equal('tx-1');
+        expect((error as GSwapSDKError).details?.transactionHash).to.equal('hash');
+      }
+    });
+  });
+});
@@ -0,0 +1,209 @@
+import BigNumber from 'bignumber.js';
+import { expect } from 'chai';
+import { PendingTransaction } from '../src/classes/pending_transaction.js';
+import type { Quoting } from '../src/classes/quoting.js';
+import type { Swaps } from '../src/classes/swaps.js';
+import { TwapExecutor, TwapOrder, TwapProgress } from '../src/classes/twap_executor.js';
+import { Price, SqrtPrice } from '../src/types/amounts.js';
+import { GetQuoteResult } from '../src/types/sdk_results.js';
+import { FakeTimers } from './fake_timers.js';
+
+function createQuote(amountIn: BigNumber, currentPrice: number, priceImpact: number) {
+  return {
+    amount0: amountIn,
+    amount1: amountIn.multipliedBy(-currentPrice),
+    currentPoolSqrtPrice: BigNumber(currentPrice).sqrt() as SqrtPrice,
+    newPoolSqrtPrice: BigNumber(currentPrice).sqrt() as SqrtPrice,
+    currentPrice: BigNumber(currentPrice) as Price,
+    newPrice: BigNumber(currentPrice * (1 + priceImpact)) as Price,
+    inTokenAmount: amountIn,
+    outTokenAmount: amountIn.multipliedBy(currentPrice),
+    inTokenDecimals: 8,
+    outTokenDecimals: 6,
+    priceImpact: BigNumber(priceImpact),
+    feeTier: 3000,
+    feeAmount: BigNumber(0),
+    executionPrice: BigNumber(currentPrice) as Price,
+    executionPriceImpact: BigNumber(0),
+    ticksCrossed: 0,
+    liquiditySegments: [],
+  } satisfies GetQuoteResult;
+}
+
+describe('TwapExecutor', () => {
+  let timers: FakeTimers;
+  let market: { currentPrice: number; priceImpact: number };
+  let swapCalls: Array<{ fee: number; amount: Record<string, unknown> }>;
+  let quoting: Quoting;
+  let swaps: Swaps;
+
+  const order: TwapOrder = {
+    tokenIn: 'GALA|Unit|none|none',
+    tokenOut: 'GUSDC|Unit|none|none',
+    totalAmount: '100',
+    slices: 3,
+    durationMs: 3000,
+    slippageBps: 100,
+  };
+
+  beforeEach(() => {
+    timers = new FakeTimers();
+    market = { currentPrice: 2, priceImpact: -0.001 };
+    swapCalls = [];
+
+    quoting = {
+      quoteExactInput: async (_tokenIn: string, _tokenOut: string, amount: BigNumber.Value) =>
+        createQuote(BigNumber(amount), market.currentPrice, market.priceImpact),
+    } as unknown as Quoting;
+
+    swaps = {
+      swap: async (
+        _tokenIn: string,
+        _tokenOut: string,
+        fee: number,
+        amount: Record<string, unknown>,
+      ) => {
+        swapCalls.push({ fee, amount });
+        return new PendingTransaction(`tx-${swapCalls.length}`, 'ok', false, async () => {
+          throw new Error('Not implemented');
+        });
+      },
+    } as unknown as Swaps;
+  });
+
+  it('should split the total amount into child swaps spread over the window', async () => {
+    const twap = new TwapExecutor(quoting, swaps, order, { timers });
+    const progress: TwapProgress[] = [];
+    twap.on('progress', (event: TwapProgress) => progress.push(event));
+
+    const summaryPromise = twap.start();
+
+    await timers.advance(0);
+    expect(swapCalls).to.have.length(1);
+
+    await timers.advance(999);
+    expect(swapCalls).to.have.length(1);
+
+    await timers.advance(1);
+    expect(swapCalls).to.have.length(2);
+
+    await timers.advance(1000);
+    const summary = await summaryPromise;
+
+    expect(summary.status).to.equal('completed');
+    expect(twap.status).to.equal('completed');
+    expect(swapCalls.map((call) => call.amount.exactIn!.toString())).to.deep.equal([
+      '33.33333333',
+      '33.33333333',
+      '33.33333334',
+    ]);
+    expect(swapCalls[0]!.fee).to.equal(3000);
+    expect(swapCalls[0]!.amount.amountOutMinimum!.toString()).to.equal('65.999999');
+    expect(summary.submittedInTokenAmount.toString()).to.equal('100');
+    expect(summary.quotedOutTokenAmount.toString()).to.equal('200');
+    expect(progress.map((event) => event.processedSlices)).to.deep.equal([1, 2, 3]);
+    expect(summary.slices[2]!.transaction?.transactionId).to.equal('tx-3');
+  });
+
+  it('should skip child swaps above the price impact limit', async () => {
+    const twap = new TwapExecutor(quoting, swaps, { ...order, maxPriceImpact: 0.01 }, { timers });
+    const summaryPromise = twap.start();
+
+    await timers.advance(0);
+    market.priceImpact = -0.05;
+    await timers.advance(1000);
+    market.priceImpact = -0.001;
+    await timers.advance(1000);
+
+    const summary = await summaryPromise;
+
+    expect(summary.slices.map((slice) => slice.status)).to.deep.equal([
+      'submitted',
+      'skipped',
+      'submitted',
+    ]);
+    expect(summary.slices[1]!.reason).to.equal('PRICE_IMPACT_TOO_HIGH');
+    expect(summary.submittedInTokenAmount.toString()).to.equal('66.66666667');
+  });
+
+  it('should pause while the price has drifted and resume when it comes back', async () => {
+    const twap = new TwapExecutor(
+      quoting,
+      swaps,
+      { ...order, maxPriceDrift: 0.05, onLimitExceeded: 'pause' },
+      { timers },
+    );
+    const events: string[] = [];
+    twap.on('paused', ({ reason }: { reason: string }) => events.push(`paused:${reason}`));
+    twap.on('resumed', () => events.push('resumed'));
+
+    const summaryPromise = twap.start();
+
+    await timers.advance(0);
+    market.currentPrice = 2.5;
+    await timers.advance(2000);
+
+    expect(twap.status).to.equal('paused');
+    expect(swapCalls).to.have.length(1);
+
+    market.currentPrice = 2.02;
+    await timers.advance(2000);
+
+    const summary = await summaryPromise;
+
+    expect(events).to.deep.equal(['paused:PRICE_DRIFT_TOO_HIGH', 'resumed']);
+    expect(summary.slices.map((slice) => slice.status)).to.deep.equal([
+      'submitted',
+      'submitted',
+      'submitted',
+    ]);
+    expect(summary.submittedInTokenAmount.toString()).to.equal('100');
+  });
+
+  it('should skip the remaining child swaps once paused for too long', async () => {
+    const twap = new TwapExecutor(
+      quoting,
+      swaps,
+      { ...order, maxPriceDrift: 0.05, onLimitExceeded: 'pause', maxPauseMs: 2000 },
+      { timers },
+    );
+
+    const summaryPromise = twap.start();
+
+    await timers.advance(0);
+    market.currentPrice = 2.5;
+    await timers.advance(2000);
+
+    expect(twap.status).to.equal('paused');
+
+    await timers.advance(1000);
+
+    const summary = await summaryPromise;
+
+    expect(summary.status).to.equal('completed');
+    expect(summary.slices.map((slice) => [slice.status, slice.reason])).to.deep.equal([
+      ['submitted', undefined],
+      ['skipped', 'PRICE_DRIFT_TOO_HIGH'],
+      ['skipped', 'PRICE_DRIFT_TOO_HIGH'],
+    ]);
+    expect(summary.submittedInTokenAmount.toString()).to.equal('33.33333333');
+    expect(swapCalls).to.have.length(1);
+  });
+
+  it('should stop submitting child swaps when cancelled', async () => {
+    const twap = new TwapExecutor(quoting, swaps, order, { timers });
+    const summaryPromise = twap.start();
+
+    await timers.advance(0);
+    twap.cancel();
+
+    const summary = await summaryPromise;
+
+    expect(summary.status).to.equal('cancelled');
+    expect(summary.slices).to.have.length(1);
+    expect(swapCalls).to.have.length(1);
+
+    await timers.advance(5000);
+    expect(swapCalls).to.have.length(1);
+  });
+});
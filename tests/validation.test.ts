@@ -3,7 +3,9 @@ import { GSwapSDKError } from '../src/classes/gswap_sdk_error.js';
 import {
   validateFee,
   validateNumericAmount,
+  validatePriceImpact,
   validatePriceValues,
+  validateSlippageBps,
   validateTickRange,
   validateTickSpacing,
   validateTokenDecimals,
@@ -270,6 +272,57 @@ describe('Validation Utilities', () => {
     });
   });
 
+  describe('validateSlippageBps', () => {
+    it('should accept whole basis points from 0 to 10000', () => {
+      expect(() => validateSlippageBps(0)).to.not.throw();
+      expect(() => validateSlippageBps(50)).to.not.throw();
+      expect(() => validateSlippageBps(10000)).to.not.throw();
+    });
+
+    it('should reject fractional and out of range values', () => {
+      expect(() => validateSlippageBps(0.5)).to.throw(
+        'Invalid slippageBps: must be an integer between 0 and 10000',
+      );
+      expect(() => validateSlippageBps(-1)).to.throw(
+        'Invalid slippageBps: must be an integer between 0 and 10000',
+      );
+      expect(() => validateSlippageBps(10001)).to.throw(
+        'Invalid slippageBps: must be an integer between 0 and 10000',
+      );
+    });
+  });
+
+  describe('validatePriceImpact', () => {
+    it('should accept fractions between 0 and 1', () => {
+      expect(() => validatePriceImpact(0.01, 'maxPriceImpact')).to.not.throw();
+      expect(() => validatePriceImpact('0.5', 'maxPriceImpact')).to.not.throw();
+    });
+
+    it('should reject zero, negative and whole percentages', () => {
+      expect(() => validatePriceImpact(0, 'maxPriceImpact')).to.throw(
+        'Invalid maxPriceImpact: must be greater than 0 and less than 1',
+      );
+      expect(() => validatePriceImpact(-0.01, 'maxPriceImpact')).to.throw(
+        'Invalid maxPriceImpact: must be greater than 0 and less than 1',
+      );
+      expect(() => validatePriceImpact(5, 'maxPriceImpact')).to.throw(
+        'Invalid maxPriceImpact: must be greater than 0 and less than 1',
+      );
+    });
+
+    it('should throw GSwapSDKError with correct code and details', () => {
+      try {
+        validatePriceImpact(1, 'maxPriceImpact');
+        expect.fail('Should have thrown an error');
+      } catch (error) {
+        expect(error).to.be.instanceOf(GSwapSDKError);
+        expect((error as GSwapSDKError).code).to.equal('VALIDATION_ERROR');
+        expect((error as GSwapSDKError).details?.type).to.equal('INVALID_PRICE_IMPACT');
+        expect((error as GSwapSDKError).details?.value).to.equal(1);
+      }
+    });
+  });
+
   describe('validateTokenDecimals', () => {
     it('should accept valid token decimals', () => {
       expect(() => validateTokenDecimals(18, 'decimals')).to.not.throw();